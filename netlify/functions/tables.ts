@@ -0,0 +1,14 @@
+// netlify/functions/tables.ts
+import { createTableApi, readProxyConfig } from '../../server/tableApi';
+
+let handle: ((request: Request) => Promise<Response>) | undefined;
+
+export default async (request: Request): Promise<Response> => {
+  // Built lazily so a missing env var shows up as a 500, not a failed deploy
+  handle ??= createTableApi(readProxyConfig(process.env));
+  return handle(request);
+};
+
+export const config = {
+  path: ['/api/tables', '/api/tables/*'],
+};
@@ -0,0 +1,41 @@
+// server/proxy.ts
+//
+// Runs the table API (server/tableApi.ts) as a local HTTP server. In
+// production the same handler is deployed as a Netlify function.
+//
+//   JSONBIN_API_KEY=... TABLE_TOKEN_SECRET=... TABLES='{"main":"<bin id>"}' npm run proxy
+import { createServer } from 'node:http';
+import { CLIENT_ADDRESS_HEADER, createTableApi, readProxyConfig } from './tableApi';
+
+const PORT = Number(process.env.PROXY_PORT ?? 8788);
+
+const handle = createTableApi(readProxyConfig(process.env));
+
+const server = createServer(async (req, res) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD' && chunks.length > 0;
+  const request = new Request(`http://localhost:${PORT}${req.url}`, {
+    method: req.method,
+    headers: [
+      ...Object.entries(req.headers).flatMap(([name, value]) =>
+        value === undefined || name === CLIENT_ADDRESS_HEADER
+          ? []
+          : [[name, Array.isArray(value) ? value.join(', ') : value]]
+      ),
+      [CLIENT_ADDRESS_HEADER, req.socket.remoteAddress ?? 'unknown'],
+    ],
+    body: hasBody ? Buffer.concat(chunks) : undefined,
+  });
+
+  const response = await handle(request);
+  res.writeHead(response.status, Object.fromEntries(response.headers));
+  res.end(Buffer.from(await response.arrayBuffer()));
+});
+
+server.listen(PORT, () => {
+  console.log(`Table API listening on http://localhost:${PORT}`);
+});
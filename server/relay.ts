@@ -0,0 +1,141 @@
+// server/relay.ts
+//
+// Relays table operations between browsers looking at the same table. It
+// keeps no state beyond who is connected: persistence still goes through the
+// storage backend, this only makes other people's edits show up instantly.
+// Encrypted tables send their operations sealed; those are passed on as they are.
+//
+// A connection's first message must be `{ type: 'join', token }` with the
+// same per-table token the table API checks, so it needs TABLE_TOKEN_SECRET
+// too. The token travels in a message rather than the URL so it stays out of
+// access logs.
+//
+//   TABLE_TOKEN_SECRET=... npm run relay            # listens on ws://localhost:8787
+//   TABLE_TOKEN_SECRET=... RELAY_PORT=9000 npm run relay
+import { WebSocketServer, WebSocket } from 'ws';
+import { checkOperations } from '../src/services/storageSchema';
+import { isValidTableToken } from './tableApi';
+
+type RelayMessage =
+  | { type: 'operations'; operations: unknown[]; from?: string }
+  | { type: 'sealed'; sealed: object; from?: string };
+
+const PORT = Number(process.env.RELAY_PORT ?? 8787);
+const TOKEN_SECRET = process.env.TABLE_TOKEN_SECRET;
+const HEARTBEAT_INTERVAL = 30000;
+const JOIN_TIMEOUT = 5000;
+const MAX_MESSAGE_BYTES = 256 * 1024;
+
+if (!TOKEN_SECRET) {
+  console.error('TABLE_TOKEN_SECRET must be set');
+  process.exit(1);
+}
+
+const tables = new Map<string, Set<WebSocket>>();
+const alive = new WeakSet<WebSocket>();
+
+const isRelayMessage = (value: unknown): value is RelayMessage => {
+  if (typeof value !== 'object' || value === null) return false;
+  const message = value as Record<string, unknown>;
+  // Checked like the table API checks appends, so peers only get operations they can apply
+  if (message.type === 'operations') {
+    return Array.isArray(message.operations) && checkOperations(message.operations).rejected.length === 0;
+  }
+  if (message.type === 'sealed') return typeof message.sealed === 'object' && message.sealed !== null;
+  return false;
+};
+
+const isJoinMessage = (value: unknown): value is { type: 'join'; token: string } =>
+  typeof value === 'object' &&
+  value !== null &&
+  (value as Record<string, unknown>).type === 'join' &&
+  typeof (value as Record<string, unknown>).token === 'string';
+
+const join = (tableId: string, socket: WebSocket) => {
+  const peers = tables.get(tableId) ?? new Set<WebSocket>();
+  peers.add(socket);
+  tables.set(tableId, peers);
+};
+
+const leave = (tableId: string, socket: WebSocket) => {
+  const peers = tables.get(tableId);
+  if (!peers) return;
+  peers.delete(socket);
+  if (peers.size === 0) {
+    tables.delete(tableId);
+  }
+};
+
+const wss = new WebSocketServer({ port: PORT, maxPayload: MAX_MESSAGE_BYTES });
+
+wss.on('connection', (socket, request) => {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  const tableId = url.searchParams.get('table');
+  const clientId = url.searchParams.get('client') ?? undefined;
+
+  if (!tableId) {
+    socket.close(1008, 'table query parameter is required');
+    return;
+  }
+
+  let joined = false;
+  const joinTimer = setTimeout(() => socket.close(1008, 'join message expected'), JOIN_TIMEOUT);
+  alive.add(socket);
+
+  socket.on('pong', () => alive.add(socket));
+
+  socket.on('message', (raw) => {
+    let message: unknown;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      message = null;
+    }
+
+    if (!joined) {
+      if (!isJoinMessage(message) || !isValidTableToken(TOKEN_SECRET, tableId, message.token)) {
+        socket.close(1008, 'invalid table token');
+        return;
+      }
+      joined = true;
+      clearTimeout(joinTimer);
+      join(tableId, socket);
+      socket.send(JSON.stringify({ type: 'joined' }));
+      return;
+    }
+    if (!isRelayMessage(message)) return;
+
+    const outgoing = JSON.stringify(
+      message.type === 'operations'
+        ? { type: 'operations', operations: message.operations, from: clientId }
+        : { type: 'sealed', sealed: message.sealed, from: clientId }
+    );
+    tables.get(tableId)?.forEach(peer => {
+      if (peer !== socket && peer.readyState === WebSocket.OPEN) {
+        peer.send(outgoing);
+      }
+    });
+  });
+
+  socket.on('close', () => {
+    clearTimeout(joinTimer);
+    leave(tableId, socket);
+  });
+  socket.on('error', (error) => console.error(`Relay socket error on table ${tableId}:`, error));
+});
+
+// Drop connections that stopped answering pings so rooms don't leak
+const heartbeat = setInterval(() => {
+  wss.clients.forEach(socket => {
+    if (!alive.has(socket)) {
+      socket.terminate();
+      return;
+    }
+    alive.delete(socket);
+    socket.ping();
+  });
+}, HEARTBEAT_INTERVAL);
+
+wss.on('close', () => clearInterval(heartbeat));
+
+console.log(`Table relay listening on ws://localhost:${PORT}`);
@@ -0,0 +1,317 @@
+// server/tableApi.ts
+//
+// The table endpoints behind the browser's "proxy" storage backend. The
+// jsonbin master key only lives here; browsers get a per-table token that
+// grants access to that one table and nothing else.
+//
+//   POST   /tables                          -> { tableId, token } for a new table (rate limited)
+//   GET    /tables/:id                      -> StoredDocument
+//   HEAD   /tables/:id                      -> ETag with the document version, for change checks
+//   PUT    /tables/:id  (If-Match)          <- StoredDocument
+//   DELETE /tables/:id
+//   GET    /tables/:id/operations?after=n&epoch=e -> LoggedOperation[]; 410 when the client must reload
+//   POST   /tables/:id/operations           <- { expectedSeq, epoch, operations }; 400 lists malformed operations
+//
+// Requests for an existing table need `Authorization: Bearer <token for :id>`.
+// Anyone may create a table, but each client address only so many per hour.
+// Table ids are jsonbin bin ids, or aliases listed in TABLES. Encrypted tables
+// are stored as their clients send them; their operations endpoints and DELETE
+// answer 422, as only the clients can read them.
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { JsonBinBackend } from '../src/services/backends/jsonBinBackend';
+import { StorageConflictError, StorageHttpError } from '../src/services/backends/types';
+import type { SaveOptions, StorageBackend } from '../src/services/backends/types';
+import { migrateStorageData, SchemaVersionError } from '../src/services/migrations';
+import { createOperationLog } from '../src/services/operationLog';
+import { resetDocument } from '../src/services/revisions';
+import { checkOperations } from '../src/services/storageSchema';
+import { createEmptyStorageData } from '../src/services/storageTypes';
+import type { StorageData, StoredDocument } from '../src/services/storageTypes';
+import { EncryptedTableError, isEncryptedDocument } from '../src/services/tableEncryption';
+
+export interface ProxyConfig {
+  jsonBinApiKey: string;
+  // Signs the per-table access tokens
+  tokenSecret: string;
+  // Aliases: table id -> jsonbin bin id
+  tables: Record<string, string>;
+  // Override for the jsonbin API, e.g. a local stand-in during development
+  jsonBinUrl?: string;
+  // Tables one client address may create per hour
+  tablesPerHour: number;
+}
+
+const DEFAULT_TABLES_PER_HOUR = 10;
+
+export function readProxyConfig(env: Record<string, string | undefined>): ProxyConfig {
+  const { JSONBIN_API_KEY, TABLE_TOKEN_SECRET, TABLES, JSONBIN_URL, TABLES_PER_HOUR } = env;
+  if (!JSONBIN_API_KEY || !TABLE_TOKEN_SECRET) {
+    throw new Error('JSONBIN_API_KEY and TABLE_TOKEN_SECRET must be set');
+  }
+  return {
+    jsonBinApiKey: JSONBIN_API_KEY,
+    tokenSecret: TABLE_TOKEN_SECRET,
+    tables: TABLES ? JSON.parse(TABLES) : {},
+    jsonBinUrl: JSONBIN_URL,
+    tablesPerHour: TABLES_PER_HOUR ? Number(TABLES_PER_HOUR) : DEFAULT_TABLES_PER_HOUR,
+  };
+}
+
+const BIN_ID_PATTERN = /^[0-9a-f]{24}$/;
+
+export const tableToken = (secret: string, tableId: string): string =>
+  createHmac('sha256', secret).update(tableId).digest('base64url');
+
+// Also checks the tokens browsers present to the relay (server/relay.ts)
+export const isValidTableToken = (secret: string, tableId: string, token: string): boolean => {
+  const presented = Buffer.from(token);
+  const expected = Buffer.from(tableToken(secret, tableId));
+  return presented.length === expected.length && timingSafeEqual(presented, expected);
+};
+
+const isAuthorized = (config: ProxyConfig, tableId: string, request: Request): boolean => {
+  const header = request.headers.get('Authorization') ?? '';
+  return isValidTableToken(config.tokenSecret, tableId, header.replace(/^Bearer\s+/i, ''));
+};
+
+// Set by Netlify, and by server/proxy.ts from the socket; either overrides what the client sent
+export const CLIENT_ADDRESS_HEADER = 'x-nf-client-connection-ip';
+
+const CREATION_WINDOW_MS = 60 * 60 * 1000;
+
+// Tables created per client address in the current window. Per instance, so
+// several instances together allow a few times the limit.
+const creations = new Map<string, { count: number; since: number }>();
+
+// Counts a table creation; returns the milliseconds to wait when over the limit
+const takeCreation = (address: string, limit: number): number => {
+  const now = Date.now();
+  for (const [key, window] of creations) {
+    if (now - window.since >= CREATION_WINDOW_MS) {
+      creations.delete(key);
+    }
+  }
+  const window = creations.get(address) ?? { count: 0, since: now };
+  if (window.count >= limit) {
+    return window.since + CREATION_WINDOW_MS - now;
+  }
+  creations.set(address, { ...window, count: window.count + 1 });
+  return 0;
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const error = (status: number, message: string) => json({ error: message }, status);
+
+// jsonbin can't do conditional writes, so writes to one table go one at a time
+// within an instance; CheckedBackend catches what other instances overwrite
+const tableLocks = new Map<string, Promise<unknown>>();
+
+const withTableLock = <T>(tableId: string, task: () => Promise<T>): Promise<T> => {
+  const previous = tableLocks.get(tableId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  tableLocks.set(tableId, next);
+  return next;
+};
+
+/**
+ * Reads every write back. When a concurrent write from another instance has
+ * replaced ours, the save fails with StorageConflictError and the client
+ * retries on top of it; the instance whose write stayed succeeds. A write
+ * that lands after our read-back can still go unnoticed, so this narrows the
+ * window for lost appends rather than closing it.
+ */
+class CheckedBackend implements StorageBackend<StoredDocument> {
+  readonly name: string;
+
+  constructor(private readonly inner: StorageBackend<StoredDocument>) {
+    this.name = inner.name;
+  }
+
+  async load(): Promise<StoredDocument | null> {
+    return await this.inner.load();
+  }
+
+  async save(data: StoredDocument, options?: SaveOptions): Promise<void> {
+    await this.inner.save(data, options);
+    const stored = await this.inner.load();
+    if (stored?.version !== data.version || stored.lastUpdated !== data.lastUpdated) {
+      throw new StorageConflictError(stored?.version);
+    }
+  }
+
+  async reset(): Promise<StorageData> {
+    const emptyData = resetDocument(await this.load());
+    await this.save(emptyData);
+    return emptyData;
+  }
+}
+
+// Versions read recently, so change checks from every open table cost one
+// jsonbin read every few seconds instead of one each. Writes through this
+// instance drop the entry; other instances' writes show once it expires.
+const VERSION_CACHE_MS = 2000;
+const versionCache = new Map<string, { version: number; readAt: number }>();
+
+const rememberVersion = (tableId: string, data: StoredDocument | null) => {
+  if (data) {
+    versionCache.set(tableId, { version: data.version, readAt: Date.now() });
+  }
+};
+
+const withWrite = async <T>(tableId: string, task: () => Promise<T>): Promise<T> => {
+  try {
+    return await task();
+  } finally {
+    versionCache.delete(tableId);
+  }
+};
+
+export function createTableApi(config: ProxyConfig) {
+  const binIdFor = (tableId: string): string | undefined =>
+    config.tables[tableId] ?? (BIN_ID_PATTERN.test(tableId) ? tableId : undefined);
+
+  const backendFor = (tableId: string) =>
+    new CheckedBackend(
+      new JsonBinBackend({ apiKey: config.jsonBinApiKey, binId: binIdFor(tableId), baseUrl: config.jsonBinUrl })
+    );
+
+  const createTable = async () => {
+    const tableId = await JsonBinBackend.createBin(
+      { apiKey: config.jsonBinApiKey, baseUrl: config.jsonBinUrl },
+      createEmptyStorageData()
+    );
+    return json({ tableId, token: tableToken(config.tokenSecret, tableId) }, 201);
+  };
+
+  const route = async (request: Request, tableId: string, resource: string | undefined) => {
+    const backend = backendFor(tableId);
+    const log = createOperationLog(backend);
+    const url = new URL(request.url);
+
+    if (!resource) {
+      switch (request.method) {
+        case 'GET': {
+          const data = await backend.load();
+          rememberVersion(tableId, data);
+          return data ? json(data) : error(404, 'Table is empty');
+        }
+        case 'HEAD': {
+          const cached = versionCache.get(tableId);
+          let version = cached && Date.now() - cached.readAt < VERSION_CACHE_MS ? cached.version : undefined;
+          if (version === undefined) {
+            const data = await backend.load();
+            if (!data) {
+              return new Response(null, { status: 404 });
+            }
+            rememberVersion(tableId, data);
+            version = data.version;
+          }
+          return new Response(null, { status: 200, headers: { 'ETag': `"${version}"` } });
+        }
+        case 'PUT':
+          return withTableLock(tableId, () => withWrite(tableId, async () => {
+            const ifMatch = request.headers.get('If-Match');
+            const expectedVersion = ifMatch ? Number(ifMatch.replace(/"/g, '')) : undefined;
+            if (expectedVersion !== undefined) {
+              const current = await backend.load();
+              if (current && current.version !== expectedVersion) {
+                return error(412, 'Version mismatch');
+              }
+            }
+            const data = (await request.json()) as StoredDocument;
+            await backend.save(isEncryptedDocument(data) ? data : migrateStorageData(data));
+            return new Response(null, { status: 204 });
+          }));
+        case 'DELETE':
+          return withTableLock(tableId, () => withWrite(tableId, async () => json(await backend.reset())));
+      }
+    }
+
+    if (resource === 'operations') {
+      switch (request.method) {
+        case 'GET': {
+          const operations = await log.fetchSince(
+            Number(url.searchParams.get('after') ?? 0),
+            url.searchParams.get('epoch') ?? undefined
+          );
+          return operations ? json(operations) : error(410, 'Log position is too old, reload the table');
+        }
+        case 'POST':
+          return withTableLock(tableId, () => withWrite(tableId, async () => {
+            const { expectedSeq, epoch, operations } =
+              (await request.json()) as { expectedSeq: number; epoch?: string; operations: unknown };
+            if (!Array.isArray(operations)) {
+              return error(400, 'operations must be an array');
+            }
+            // Nothing is appended unless every operation checks out
+            const { valid, rejected } = checkOperations(operations);
+            if (rejected.length > 0) {
+              return json({ error: 'Some operations are malformed', rejected }, 400);
+            }
+            return json(await log.append(valid, Number(expectedSeq), epoch));
+          }));
+      }
+    }
+
+    return error(405, 'Method not allowed');
+  };
+
+  return async (request: Request): Promise<Response> => {
+    const match = new URL(request.url).pathname.match(/\/tables(?:\/([^/]+)(?:\/([^/]+))?)?\/?$/);
+    if (!match) {
+      return error(404, 'Not found');
+    }
+
+    const [, tableId, resource] = match;
+    if (!tableId) {
+      if (request.method !== 'POST') {
+        return error(405, 'Method not allowed');
+      }
+      const wait = takeCreation(request.headers.get(CLIENT_ADDRESS_HEADER) ?? 'unknown', config.tablesPerHour);
+      if (wait > 0) {
+        const response = error(429, 'Too many new tables, try again later');
+        response.headers.set('Retry-After', String(Math.ceil(wait / 1000)));
+        return response;
+      }
+      try {
+        return await createTable();
+      } catch (caught) {
+        console.error('Creating a table failed:', caught);
+        return error(502, 'Storage provider error');
+      }
+    }
+    if (!binIdFor(tableId)) {
+      return error(404, 'Unknown table');
+    }
+    if (!isAuthorized(config, tableId, request)) {
+      return error(401, 'Missing or invalid table token');
+    }
+
+    try {
+      return await route(request, tableId, resource);
+    } catch (caught) {
+      if (caught instanceof StorageConflictError) {
+        return error(409, caught.message);
+      }
+      if (caught instanceof SchemaVersionError || caught instanceof EncryptedTableError) {
+        return error(422, caught.message);
+      }
+      if (caught instanceof StorageHttpError) {
+        console.error(`Upstream error for table ${tableId}:`, caught);
+        if (caught.status === 429) {
+          // Pass the provider's rate limit on so clients back off
+          const response = error(429, 'Storage provider rate limit');
+          if (caught.retryAfter !== undefined) {
+            response.headers.set('Retry-After', String(Math.ceil(caught.retryAfter / 1000)));
+          }
+          return response;
+        }
+        return error(502, 'Storage provider error');
+      }
+      console.error(`Request for table ${tableId} failed:`, caught);
+      return error(500, 'Internal error');
+    }
+  };
+}
@@ -0,0 +1,16 @@
+// server/tableToken.ts
+//
+// Prints the access token for a table, to hand to the people using it.
+//
+//   TABLE_TOKEN_SECRET=... npm run table-token -- main
+import { tableToken } from './tableApi';
+
+const [tableId] = process.argv.slice(2);
+const secret = process.env.TABLE_TOKEN_SECRET;
+
+if (!tableId || !secret) {
+  console.error('Usage: TABLE_TOKEN_SECRET=... npm run table-token -- <table id>');
+  process.exit(1);
+}
+
+console.log(tableToken(secret, tableId));
@@ -1,13 +1,17 @@
 import React, { useState, useRef } from "react";
 import { TableObject } from "./InteractiveTable";
+import { formatTextForPaper } from "@/lib/paperText";
+import { TABLE_BASE_HEIGHT, TABLE_BASE_WIDTH } from "@/lib/tableLayout";
 
 interface DraggableObjectProps {
   object: TableObject;
-  onMove: (id: string, x: number, y: number) => void;
-  onRemove: (id: string) => void;
+  onMove?: (id: string, x: number, y: number) => void;
+  onRemove?: (id: string) => void;
   tableRef: React.RefObject<HTMLDivElement>;
   scale?: number;
   isMobile?: boolean;
+  // Shown but not draggable or removable, e.g. in a replay
+  readOnly?: boolean;
 }
 
 export const DraggableObject = ({ 
@@ -16,7 +20,8 @@ export const DraggableObject = ({
   onRemove, 
   tableRef,
   scale = 1,
-  isMobile = false
+  isMobile = false,
+  readOnly = false
 }: DraggableObjectProps) => {
   const [isDragging, setIsDragging] = useState(false);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
@@ -24,11 +29,12 @@ export const DraggableObject = ({
   const objectRef = useRef<HTMLDivElement>(null);
 
   const handleMouseDown = (e: React.MouseEvent) => {
-    if (isMobile) return;
+    if (isMobile || readOnly) return;
     startDrag(e.clientX, e.clientY);
   };
 
   const handleTouchStart = (e: React.TouchEvent) => {
+    if (readOnly) return;
     e.preventDefault();
     
     const now = Date.now();
@@ -36,7 +42,7 @@ export const DraggableObject = ({
     
     // Double tap to remove
     if (timeSinceLast < 300 && timeSinceLast > 0) {
-      onRemove(object.id);
+      onRemove?.(object.id);
       return;
     }
     setLastTap(now);
@@ -81,13 +87,13 @@ export const DraggableObject = ({
     let newY = (clientY - tableRect.top) / scale - dragOffset.y;
 
     // Keep object within table bounds
-    const maxX = 800 - 60; // TABLE_BASE_WIDTH - object width
-    const maxY = 600 - 60; // TABLE_BASE_HEIGHT - object height
+    const maxX = TABLE_BASE_WIDTH - 60; // minus object width
+    const maxY = TABLE_BASE_HEIGHT - 60; // minus object height
     
     newX = Math.max(0, Math.min(newX, maxX));
     newY = Math.max(0, Math.min(newY, maxY));
 
-    onMove(object.id, newX, newY);
+    onMove?.(object.id, newX, newY);
   };
 
   const handleMouseUp = () => {
@@ -99,43 +105,11 @@ export const DraggableObject = ({
   };
 
   const handleDoubleClick = () => {
-    if (!isMobile) {
-      onRemove(object.id);
+    if (!isMobile && !readOnly) {
+      onRemove?.(object.id);
     }
   };
 
-  // Format text for paper objects
-  const formatTextForPaper = (text: string) => {
-    const words = text.split(' ');
-    const lines = [];
-    let currentLine = '';
-    const maxCharsPerLine = isMobile ? 8 : 12;
-    const maxLines = 10;
-
-    for (const word of words) {
-      if (currentLine.length + word.length + 1 > maxCharsPerLine && currentLine.length > 0) {
-        lines.push(currentLine);
-        currentLine = word;
-        
-        if (lines.length >= maxLines) {
-          break;
-        }
-      } else {
-        currentLine = currentLine ? `${currentLine} ${word}` : word;
-      }
-    }
-    
-    if (currentLine && lines.length < maxLines) {
-      lines.push(currentLine);
-    }
-    
-    if (lines.length === maxLines && words.length > lines.join(' ').split(' ').length) {
-      lines[maxLines - 1] = lines[maxLines - 1].slice(0, -3) + '...';
-    }
-
-    return lines;
-  };
-
   // Attach global events when dragging
   React.useEffect(() => {
     if (isDragging) {
@@ -172,7 +146,7 @@ export const DraggableObject = ({
       className={`absolute flex items-center justify-center transition-all duration-200 ${
         isDragging 
           ? 'scale-110 shadow-2xl z-10' 
-          : 'hover:scale-105 hover:shadow-xl'
+          : readOnly ? '' : 'hover:scale-105 hover:shadow-xl'
       } ${
         isPaper 
           ? '' 
@@ -180,7 +154,7 @@ export const DraggableObject = ({
             ? '' // No background for custom emojis - free floating
             : 'rounded-2xl'
       } ${
-        isMobile ? 'cursor-default' : 'cursor-grab active:cursor-grabbing'
+        isMobile || readOnly ? 'cursor-default' : 'cursor-grab active:cursor-grabbing'
       }`}
       style={{
         left: `${object.x * scale}px`,
@@ -193,7 +167,7 @@ export const DraggableObject = ({
       onMouseDown={handleMouseDown}
       onTouchStart={handleTouchStart}
       onDoubleClick={handleDoubleClick}
-      title={isMobile ? `Double-tap to remove ${object.type}` : `Double-click to remove ${object.type}`}
+      title={readOnly ? object.type : isMobile ? `Double-tap to remove ${object.type}` : `Double-click to remove ${object.type}`}
     >
       {isPaper ? (
         <div 
@@ -207,7 +181,7 @@ export const DraggableObject = ({
           }}
         >
           <div className="w-full h-full flex flex-col">
-            {formatTextForPaper(object.emoji).map((line, index) => (
+            {formatTextForPaper(object.emoji, isMobile ? 8 : 12).map((line, index) => (
               <div key={index} className="break-words hyphens-auto" style={{ wordBreak: 'break-word' }}>
                 {line}
               </div>
@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Lock } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { createTable } from "@/services/storageService";
+import { shareLink } from "@/services/tableAccess";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export const EncryptedTableDialog = () => {
+  const navigate = useNavigate();
+  const [isOpen, setIsOpen] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const problem =
+    passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+      : passphrase !== confirmation
+        ? "The passphrases don't match"
+        : null;
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (problem) return;
+    setIsCreating(true);
+    try {
+      const { tableId } = await createTable(passphrase);
+      await navigator.clipboard?.writeText(shareLink(tableId)).catch(() => undefined);
+      toast.success('Encrypted table created, share link copied. Send the passphrase separately.');
+      setIsOpen(false);
+      navigate(`/t/${encodeURIComponent(tableId)}`);
+    } catch (error) {
+      console.error('Failed to create encrypted table:', error);
+      toast.error('Failed to create the table');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (!open) {
+          setPassphrase("");
+          setConfirmation("");
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Lock />
+          Encrypted table
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleCreate} className="flex flex-col gap-4">
+          <DialogHeader>
+            <DialogTitle>New encrypted table</DialogTitle>
+            <DialogDescription>
+              Everything on the table is encrypted in your browser before it's saved. Anyone opening it needs the
+              passphrase, and there is no way to recover it if it's lost.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="new-table-passphrase">Passphrase</Label>
+            <Input
+              id="new-table-passphrase"
+              type="password"
+              autoComplete="new-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="new-table-passphrase-confirm">Repeat the passphrase</Label>
+            <Input
+              id="new-table-passphrase-confirm"
+              type="password"
+              autoComplete="new-password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+            />
+          </div>
+          {passphrase && problem && <p className="text-sm text-destructive">{problem}</p>}
+
+          <DialogFooter>
+            <Button type="submit" disabled={problem !== null || isCreating}>
+              {isCreating ? 'Creating...' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { TablePreview } from "./TablePreview";
+import {
+  createTable,
+  getStorageService,
+  type StorageService,
+  type StoredObject,
+  type TableChanges,
+} from "@/services/storageService";
+import { countChanges, diffTables } from "@/services/tableDiff";
+import { ImportError, parseTableExport, type ParsedImport } from "@/services/tableExport";
+
+type ImportTarget = 'merge' | 'replace' | 'new';
+
+interface ImportTableDialogProps {
+  storageService: StorageService;
+  canImport: boolean;
+}
+
+// The objects the table ends up with once `changes` are applied to `current`
+const resultOf = (current: StoredObject[], changes: TableChanges): StoredObject[] => {
+  const removed = new Set(changes.removed.map(object => object.id));
+  const updated = new Map(changes.updated.map(({ after }) => [after.id, after]));
+  return [
+    ...current.filter(object => !removed.has(object.id)).map(object => updated.get(object.id) ?? object),
+    ...changes.added,
+  ];
+};
+
+const emojis = (objects: StoredObject[]) =>
+  objects.slice(0, 12).map(object => (object.isText ? '📝' : object.emoji)).join(' ') +
+  (objects.length > 12 ? ` +${objects.length - 12}` : '');
+
+export const ImportTableDialog = ({ storageService, canImport }: ImportTableDialogProps) => {
+  const navigate = useNavigate();
+  const [isOpen, setIsOpen] = useState(false);
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [target, setTarget] = useState<ImportTarget>('merge');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const current = storageService.getVisibleObjects();
+  const changes = parsed
+    ? target === 'new'
+      ? diffTables([], parsed.objects)
+      : storageService.previewImport(parsed.objects, target)
+    : null;
+
+  const reset = () => {
+    setParsed(null);
+    setFileError(null);
+    setTarget('merge');
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+    try {
+      setParsed(parseTableExport(await file.text()));
+    } catch (error) {
+      setFileError(error instanceof ImportError ? error.message : 'Could not read the file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+    setIsImporting(true);
+    try {
+      if (target === 'new') {
+        const { tableId } = await createTable();
+        const service = getStorageService(tableId);
+        await service.loadObjects();
+        await service.importObjects(parsed.objects, 'replace');
+        toast.success(`Imported ${parsed.objects.length} objects into a new table`);
+        setIsOpen(false);
+        navigate(`/t/${encodeURIComponent(tableId)}`);
+        return;
+      }
+
+      const saved = await storageService.importObjects(parsed.objects, target);
+      if (saved) {
+        toast.success('Import applied');
+      } else {
+        toast.warning('Imported here; saving it will be retried');
+      }
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Import failed:', error);
+      toast.error('Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const hasChanges = changes !== null && countChanges(changes) > 0;
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (!open) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <Upload />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import a table</DialogTitle>
+          <DialogDescription>Load a JSON file exported from a table. Nothing changes until you confirm.</DialogDescription>
+        </DialogHeader>
+
+        <Input type="file" accept="application/json,.json" onChange={(e) => handleFile(e.target.files?.[0])} />
+        {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+
+        {parsed && changes && (
+          <div className="flex flex-col gap-4">
+            <RadioGroup value={target} onValueChange={(value) => setTarget(value as ImportTarget)}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="merge" id="import-merge" />
+                <Label htmlFor="import-merge">Merge into this table (keep objects the file doesn't have)</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="replace" id="import-replace" />
+                <Label htmlFor="import-replace">Replace this table's contents</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="new" id="import-new" />
+                <Label htmlFor="import-new">Create a new table from the file</Label>
+              </div>
+            </RadioGroup>
+
+            <div className="flex justify-center">
+              <TablePreview objects={target === 'new' ? parsed.objects : resultOf(current, changes)} width={320} />
+            </div>
+
+            <ul className="text-sm space-y-1">
+              <li>{changes.added.length} added {changes.added.length > 0 && <span>{emojis(changes.added)}</span>}</li>
+              <li>
+                {changes.updated.length} changed{' '}
+                {changes.updated.length > 0 && <span>{emojis(changes.updated.map(({ after }) => after))}</span>}
+              </li>
+              <li>{changes.removed.length} removed {changes.removed.length > 0 && <span>{emojis(changes.removed)}</span>}</li>
+              <li className="text-muted-foreground">{changes.unchanged} unchanged</li>
+            </ul>
+
+            {parsed.rejected.length > 0 && (
+              <div className="text-sm text-amber-700">
+                <p>{parsed.rejected.length} object(s) in the file are invalid and will be skipped:</p>
+                <ul className="list-disc pl-5 max-h-24 overflow-y-auto">
+                  {parsed.rejected.map(({ index, problem }) => (
+                    <li key={index}>#{index + 1}: {problem}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={handleImport}
+            disabled={!parsed || !hasChanges || isImporting || (target !== 'new' && !canImport)}
+          >
+            {isImporting ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
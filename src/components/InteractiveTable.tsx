@@ -1,8 +1,30 @@
 import React, { useState, useRef, useEffect } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Download, LayoutGrid, Link2, Lock, PlayCircle, Plus, Redo2, Undo2 } from "lucide-react";
 import { ObjectPalette } from "./ObjectPalette";
 import { DraggableObject } from "./DraggableObject";
+import { ImportTableDialog } from "./ImportTableDialog";
+import { PassphrasePrompt } from "./PassphrasePrompt";
+import { QuarantinePanel } from "./QuarantinePanel";
+import { RevisionHistory } from "./RevisionHistory";
+import { SyncStatusIndicator } from "./SyncStatusIndicator";
 import { toast } from "sonner";
-import { storageService } from "../services/storageService";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { downloadBlob } from "@/lib/download";
+import { renderTablePng, renderTableSvg } from "@/lib/tableImage";
+import { TABLE_BASE_HEIGHT, TABLE_BASE_WIDTH } from "@/lib/tableLayout";
+import { useTable } from "@/hooks/use-table";
+import { createTable, getStorageService } from "../services/storageService";
+import { shareLink } from "../services/tableAccess";
+import { PassphraseRequiredError } from "../services/tableEncryption";
+import { createTableExport, exportFileName } from "../services/tableExport";
 
 export interface TableObject {
   id: string;
@@ -22,21 +44,26 @@ const OBJECT_TYPES = [
   { type: "lamp", emoji: "💡", color: "bg-yellow-500" },
 ];
 
-// Fixed table aspect ratio (4:3 - width:height)
-const TABLE_ASPECT_RATIO = 4 / 3;
-const TABLE_BASE_WIDTH = 800;
-const TABLE_BASE_HEIGHT = TABLE_BASE_WIDTH / TABLE_ASPECT_RATIO; // 600px
+const PNG_PIXEL_RATIOS = [1, 2, 4];
 
-export const InteractiveTable = () => {
-  const [objects, setObjects] = useState<TableObject[]>([]);
+interface InteractiveTableProps {
+  tableId: string;
+}
+
+export const InteractiveTable = ({ tableId }: InteractiveTableProps) => {
+  const storageService = getStorageService(tableId);
+  const navigate = useNavigate();
+  const objects = useTable(tableId, state => state.objects);
+  const remoteState = useTable(tableId, state => state.remoteState);
+  const canUndo = useTable(tableId, state => state.canUndo);
+  const canRedo = useTable(tableId, state => state.canRedo);
   const [isLoading, setIsLoading] = useState(true);
-  const [isSaving, setIsSaving] = useState(false);
-  const [lastSyncTime, setLastSyncTime] = useState<Date>(new Date());
+  const [isRetryingLoad, setIsRetryingLoad] = useState(false);
+  const [isCreatingTable, setIsCreatingTable] = useState(false);
   const [tableScale, setTableScale] = useState(1);
   const [isMobile, setIsMobile] = useState(false);
   const tableRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const syncIntervalRef = useRef<NodeJS.Timeout>();
 
   // Centralized mobile detection and scaling
   useEffect(() => {
@@ -64,7 +91,6 @@ export const InteractiveTable = () => {
   // Helper function to convert TableObject to StoredObject
   const tableObjectToStored = (obj: TableObject) => ({
     id: obj.id,
-    name: obj.type,
     x: obj.x,
     y: obj.y,
     type: obj.type,
@@ -79,43 +105,125 @@ export const InteractiveTable = () => {
       try {
         setIsLoading(true);
         const storedObjects = await storageService.loadObjects();
-        setObjects(storedObjects);
-        setLastSyncTime(new Date());
         if (storedObjects.length > 0) {
           toast.success(`Loaded ${storedObjects.length} objects`);
         }
       } catch (error) {
-        console.error('Failed to load objects:', error);
-        toast.error('Failed to load saved objects');
+        // A locked table asks for its passphrase instead
+        if (!(error instanceof PassphraseRequiredError)) {
+          console.error('Failed to load objects:', error);
+          toast.error('Failed to load saved objects');
+        }
       } finally {
         setIsLoading(false);
       }
     };
 
     loadStoredObjects();
-  }, []);
+  }, [storageService]);
 
-  // Fixed periodic sync - stable dependency array
+  // Tell the user when someone else's edits won over theirs
   useEffect(() => {
-    let syncInterval: NodeJS.Timeout;
-    
-    const performSync = async () => {
-      try {
-        const currentObjects = objects.map(tableObjectToStored);
-        const syncedObjects = await storageService.syncObjects(currentObjects);
-        
-        if (JSON.stringify(syncedObjects) !== JSON.stringify(currentObjects)) {
-          setObjects(syncedObjects);
-          setLastSyncTime(new Date());
-        }
-      } catch (error) {
-        console.error('Background sync failed:', error);
+    return storageService.onConflict((conflict) => {
+      if (conflict.reason === 'retries-exhausted') {
+        toast.error('Could not save your changes yet: the table kept changing. They will be retried.');
+      } else {
+        toast.warning(`${conflict.operations.length} change(s) were dropped because someone else edited the same objects`);
+      }
+    });
+  }, [storageService]);
+
+  const handleRetryLoad = async () => {
+    setIsRetryingLoad(true);
+    try {
+      await storageService.retryLoad();
+      toast.success('Table loaded');
+    } catch (error) {
+      toast.error('Still unable to reach the table');
+    } finally {
+      setIsRetryingLoad(false);
+    }
+  };
+
+  const handleUndo = () => {
+    storageService.undo();
+  };
+
+  const handleRedo = () => {
+    storageService.redo();
+  };
+
+  // Ctrl/Cmd+Z undoes, with Shift it redoes; typing in a field keeps its own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, [contenteditable="true"]')) return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        storageService.redo();
+      } else {
+        storageService.undo();
       }
     };
 
-    syncInterval = setInterval(performSync, 10000); // Reduced frequency for API limits
-    return () => clearInterval(syncInterval);
-  }, []); // Empty dependency array prevents recreation
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [storageService]);
+
+  // Receive other people's edits as soon as the relay, another tab or a poll delivers them
+  useEffect(() => {
+    storageService.connectLive();
+    return () => storageService.disconnectLive();
+  }, [storageService]);
+
+  const handleCreateTable = async () => {
+    setIsCreatingTable(true);
+    try {
+      const { tableId: newTableId } = await createTable();
+      const link = shareLink(newTableId);
+      await navigator.clipboard?.writeText(link).catch(() => undefined);
+      navigate(`/t/${encodeURIComponent(newTableId)}`);
+      toast.success('New table created, share link copied');
+    } catch (error) {
+      console.error('Failed to create table:', error);
+      toast.error('Failed to create a new table');
+    } finally {
+      setIsCreatingTable(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(shareLink(tableId));
+      toast.success('Share link copied');
+    } catch (error) {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const handleExport = () => {
+    const exported = createTableExport(tableId, storageService.exportData());
+    const blob = new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, exportFileName(tableId, exported.exportedAt));
+  };
+
+  // Rendered from the stored objects at the table's base size, not from the screen
+  const handleExportImage = async (format: 'svg' | 'png', pixelRatio = 1) => {
+    const visibleObjects = storageService.getVisibleObjects();
+    const date = new Date().toISOString().slice(0, 10);
+    try {
+      if (format === 'svg') {
+        downloadBlob(new Blob([renderTableSvg(visibleObjects)], { type: 'image/svg+xml' }), `table-${tableId}-${date}.svg`);
+      } else {
+        downloadBlob(await renderTablePng(visibleObjects, pixelRatio), `table-${tableId}-${date}@${pixelRatio}x.png`);
+      }
+    } catch (error) {
+      console.error('Failed to render the table:', error);
+      toast.error('Could not create the image');
+    }
+  };
 
   // Handle adding objects from palette
   const handleAddObject = async (objectData: any, position?: { x: number; y: number }) => {
@@ -139,17 +247,11 @@ export const InteractiveTable = () => {
       isText
     };
     
-    setObjects(prev => [...prev, newObject]);
-    
-    setIsSaving(true);
     try {
       await storageService.addObject(tableObjectToStored(newObject));
       toast.success(`${emoji} added`);
     } catch (error) {
       toast.error('Failed to save object');
-      setObjects(prev => prev.filter(obj => obj.id !== newObject.id));
-    } finally {
-      setIsSaving(false);
     }
   };
 
@@ -176,35 +278,17 @@ export const InteractiveTable = () => {
   };
 
   const handleObjectMove = async (id: string, newX: number, newY: number) => {
-    const oldObject = objects.find(obj => obj.id === id);
-    
-    setObjects(prev => 
-      prev.map(obj => 
-        obj.id === id ? { ...obj, x: newX, y: newY } : obj
-      )
-    );
-
     try {
       await storageService.updateObject(id, newX, newY);
     } catch (error) {
       console.error('Failed to save object position:', error);
-      if (oldObject) {
-        setObjects(prev => 
-          prev.map(obj => 
-            obj.id === id ? { ...obj, x: oldObject.x, y: oldObject.y } : obj
-          )
-        );
-        toast.error('Failed to save position');
-      }
+      toast.error('Failed to save position');
     }
   };
 
   const handleRemoveObject = async (id: string) => {
     const removedObject = objects.find(obj => obj.id === id);
-    
-    setObjects(prev => prev.filter(obj => obj.id !== id));
-    
-    setIsSaving(true);
+
     try {
       await storageService.removeObject(id);
       await storageService.forceSave();
@@ -214,11 +298,6 @@ export const InteractiveTable = () => {
       }
     } catch (error) {
       toast.error('Failed to remove object');
-      if (removedObject) {
-        setObjects(prev => [...prev, removedObject]);
-      }
-    } finally {
-      setIsSaving(false);
     }
   };
 
@@ -229,7 +308,6 @@ export const InteractiveTable = () => {
     if (trimmed === "__reset") {
       // Reset remote storage and local state
       await storageService.resetObjects();
-      setObjects([]);
       toast.success("Table has been reset!");
       return null; // Prevent adding an object
     }
@@ -268,18 +346,87 @@ export const InteractiveTable = () => {
             {isMobile ? '' : ''}
           </p>
           <div className="flex items-center justify-center gap-4 mt-2">
-            {isSaving && (
-              <p className="text-sm text-blue-600 flex items-center gap-2">
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
-                Saving...
-              </p>
+            <SyncStatusIndicator tableId={tableId} storageService={storageService} />
+            {storageService.isEncrypted && (
+              <span className="flex items-center gap-1 text-sm text-muted-foreground" title="End-to-end encrypted">
+                <Lock className="h-4 w-4" />
+                Encrypted
+              </span>
             )}
-            <p className="text-xs text-muted-foreground">
-              Last synced: {lastSyncTime.toLocaleTimeString()}
-            </p>
+          </div>
+          <div className="flex flex-wrap items-center justify-center gap-2 mt-3">
+            <Button size="sm" variant="ghost" asChild>
+              <Link to="/">
+                <LayoutGrid />
+                All tables
+              </Link>
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+              <Undo2 />
+              Undo
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+              <Redo2 />
+              Redo
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleCopyLink}>
+              <Link2 />
+              Share link
+            </Button>
+            <RevisionHistory
+              tableId={tableId}
+              storageService={storageService}
+              canRestore={remoteState === 'ready'}
+            />
+            <QuarantinePanel tableId={tableId} storageService={storageService} />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="sm" variant="outline">
+                  <Download />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent>
+                <DropdownMenuItem onSelect={handleExport}>Table data (JSON)</DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={() => handleExportImage('svg')}>Image (SVG)</DropdownMenuItem>
+                {PNG_PIXEL_RATIOS.map((ratio) => (
+                  <DropdownMenuItem key={ratio} onSelect={() => handleExportImage('png', ratio)}>
+                    Image (PNG, {TABLE_BASE_WIDTH * ratio}×{TABLE_BASE_HEIGHT * ratio})
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <ImportTableDialog
+              storageService={storageService}
+              canImport={remoteState === 'ready'}
+            />
+            <Button size="sm" variant="outline" asChild>
+              <Link to={`/t/${encodeURIComponent(tableId)}/replay`}>
+                <PlayCircle />
+                Replay
+              </Link>
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleCreateTable} disabled={isCreatingTable}>
+              <Plus />
+              {isCreatingTable ? 'Creating...' : 'New table'}
+            </Button>
           </div>
         </div>
 
+        {remoteState === 'locked' && <PassphrasePrompt storageService={storageService} />}
+
+        {remoteState === 'unavailable' && (
+          <div className="mb-6 mx-auto max-w-2xl rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-amber-900 flex flex-col sm:flex-row items-center justify-between gap-3">
+            <p>
+              Couldn't load the table. Your changes are kept on this device and won't be saved until it loads, so nobody's objects get overwritten.
+            </p>
+            <Button size="sm" variant="outline" onClick={handleRetryLoad} disabled={isRetryingLoad}>
+              {isRetryingLoad ? 'Retrying...' : 'Retry'}
+            </Button>
+          </div>
+        )}
+
         <div className="mb-8">
           <ObjectPalette 
             objects={OBJECT_TYPES} 
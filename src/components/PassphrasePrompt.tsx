@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { Lock } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { WrongPassphraseError } from "@/services/tableEncryption";
+import type { StorageService } from "@/services/storageService";
+
+interface PassphrasePromptProps {
+  storageService: StorageService;
+  // For views that read the table themselves once it opens, e.g. the replay
+  onUnlocked?: () => void;
+}
+
+// Shown in place of the load error while an encrypted table is locked
+export const PassphrasePrompt = ({ storageService, onUnlocked }: PassphrasePromptProps) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const objects = await storageService.unlock(passphrase);
+      toast.success(`Table unlocked, ${objects.length} objects`);
+      onUnlocked?.();
+    } catch (caught) {
+      setError(
+        caught instanceof WrongPassphraseError
+          ? "That passphrase doesn't open this table"
+          : "Couldn't load the table; check your connection and try again"
+      );
+      setPassphrase("");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleUnlock}
+      className="mb-6 mx-auto max-w-md rounded-lg border bg-card p-4 text-sm flex flex-col gap-3"
+    >
+      <p className="flex items-center gap-2 font-medium">
+        <Lock className="h-4 w-4" />
+        This table is end-to-end encrypted. Enter its passphrase to open it.
+      </p>
+      <div className="flex gap-2">
+        <Input
+          type="password"
+          autoComplete="current-password"
+          autoFocus
+          placeholder="Passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+        <Button type="submit" disabled={!passphrase || isUnlocking}>
+          {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </Button>
+      </div>
+      {error && <p className="text-destructive">{error}</p>}
+    </form>
+  );
+};
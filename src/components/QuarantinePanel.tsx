@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ShieldAlert, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { useTable } from "@/hooks/use-table";
+import type { QuarantinedObject, StorageService } from "@/services/storageService";
+
+interface QuarantinePanelProps {
+  tableId: string;
+  storageService: StorageService;
+}
+
+// Only shown while the table has quarantined objects
+export const QuarantinePanel = ({ tableId, storageService }: QuarantinePanelProps) => {
+  const queryClient = useQueryClient();
+  const count = useTable(tableId, state => state.quarantineCount);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const { data: entries = [], isLoading, isError } = useQuery({
+    queryKey: ["quarantine", tableId],
+    queryFn: () => storageService.fetchQuarantine(),
+    enabled: isOpen,
+    retry: false,
+  });
+
+  const handleDelete = async (toDelete: QuarantinedObject[]) => {
+    setIsDeleting(true);
+    try {
+      if (await storageService.discardQuarantined(toDelete.map(entry => entry.key))) {
+        toast.success(toDelete.length === 1 ? 'Deleted the object' : `Deleted ${toDelete.length} objects`);
+      } else {
+        toast.warning('The table kept changing; try again');
+      }
+      queryClient.invalidateQueries({ queryKey: ["quarantine", tableId] });
+    } catch (error) {
+      console.error('Failed to delete quarantined objects:', error);
+      toast.error('Failed to delete');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (count === 0 && !isOpen) {
+    return null;
+  }
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setIsOpen}>
+      <SheetTrigger asChild>
+        <Button size="sm" variant="outline" className="text-amber-700">
+          <ShieldAlert />
+          Quarantine ({count})
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Quarantined objects</SheetTitle>
+          <SheetDescription>
+            These objects were stored in a shape the table can't draw, so they were set aside instead of shown.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-2">
+          {isLoading && <p className="px-2 text-sm text-muted-foreground">Loading...</p>}
+          {isError && <p className="px-2 text-sm text-destructive">Couldn't load the quarantine</p>}
+          {!isLoading && !isError && entries.length === 0 && (
+            <p className="px-2 text-sm text-muted-foreground">Nothing in quarantine.</p>
+          )}
+          <ul className="space-y-3 px-2">
+            {entries.map((entry) => (
+              <li key={entry.key} className="rounded-md border p-3 text-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <ul className="list-disc pl-5 text-destructive">
+                    {entry.problems.map((problem, index) => (
+                      <li key={index}>{problem}</li>
+                    ))}
+                  </ul>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => handleDelete([entry])}
+                    disabled={isDeleting}
+                    title="Delete"
+                  >
+                    <Trash2 />
+                  </Button>
+                </div>
+                <pre className="mt-2 max-h-40 overflow-auto rounded bg-muted p-2 text-xs">
+                  {JSON.stringify(entry.object, null, 2)}
+                </pre>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Set aside {formatDistanceToNow(new Date(entry.quarantinedAt), { addSuffix: true })}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+
+        {entries.length > 1 && (
+          <Button variant="destructive" onClick={() => handleDelete(entries)} disabled={isDeleting}>
+            {isDeleting ? 'Deleting...' : 'Delete all'}
+          </Button>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { History } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { TablePreview } from "./TablePreview";
+import type { Revision, StorageService } from "@/services/storageService";
+
+interface RevisionHistoryProps {
+  tableId: string;
+  storageService: StorageService;
+  canRestore: boolean;
+}
+
+const describeRevision = (revision: Revision): string => {
+  switch (revision.reason) {
+    case 'autosave':
+      return 'Autosave';
+    case 'before-removal':
+      return 'Before objects were removed';
+    case 'before-reset':
+      return 'Before the table was reset';
+    case 'before-restore':
+      return 'Before a restore';
+    case 'restore':
+      return `Restored version #${revision.restoredFrom}`;
+  }
+};
+
+export const RevisionHistory = ({ tableId, storageService, canRestore }: RevisionHistoryProps) => {
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [selected, setSelected] = useState<Revision | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const { data: revisions = [], isLoading, isError } = useQuery({
+    queryKey: ["revisions", tableId],
+    queryFn: () => storageService.fetchRevisions(),
+    enabled: isOpen,
+    retry: false,
+  });
+
+  const handleRestore = async (revision: Revision) => {
+    setIsRestoring(true);
+    try {
+      const saved = await storageService.restoreRevision(revision);
+      if (saved) {
+        toast.success(`Restored version #${revision.number}`);
+      } else {
+        toast.warning('Restored here; saving it will be retried');
+      }
+      setSelected(null);
+      queryClient.invalidateQueries({ queryKey: ["revisions", tableId] });
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+      toast.error('Failed to restore this version');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setIsOpen}>
+      <SheetTrigger asChild>
+        <Button size="sm" variant="outline">
+          <History />
+          History
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Table history</SheetTitle>
+          <SheetDescription>
+            Earlier versions of this table. Restoring one becomes a new version, so it can be undone too.
+          </SheetDescription>
+        </SheetHeader>
+
+        {selected && (
+          <div className="flex flex-col items-center gap-3 border-b pb-4">
+            <TablePreview objects={selected.objects} width={300} />
+            <p className="text-sm text-muted-foreground">
+              #{selected.number} · {selected.objects.length} objects
+            </p>
+            <Button size="sm" onClick={() => handleRestore(selected)} disabled={!canRestore || isRestoring}>
+              {isRestoring ? 'Restoring...' : 'Restore this version'}
+            </Button>
+          </div>
+        )}
+
+        <ScrollArea className="flex-1 -mx-2">
+          {isLoading && <p className="px-2 text-sm text-muted-foreground">Loading...</p>}
+          {isError && <p className="px-2 text-sm text-destructive">Couldn't load the history</p>}
+          {!isLoading && !isError && revisions.length === 0 && (
+            <p className="px-2 text-sm text-muted-foreground">No earlier versions yet.</p>
+          )}
+          <ul className="space-y-1 px-2">
+            {revisions.map((revision) => (
+              <li key={revision.number}>
+                <button
+                  className={`w-full rounded-md px-3 py-2 text-left text-sm hover:bg-accent ${
+                    selected?.number === revision.number ? 'bg-accent' : ''
+                  }`}
+                  onClick={() => setSelected(revision)}
+                >
+                  <span className="font-medium">#{revision.number} {describeRevision(revision)}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(revision.savedAt), { addSuffix: true })} · {revision.objects.length} objects
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
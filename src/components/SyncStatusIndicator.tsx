@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, CheckCircle2, CloudOff, Loader2, RefreshCw, Clock } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useTable } from "@/hooks/use-table";
+import type { StorageService, SyncStatus } from "@/services/storageService";
+
+interface SyncStatusIndicatorProps {
+  tableId: string;
+  storageService: StorageService;
+}
+
+const changes = (count: number) => `${count} ${count === 1 ? 'change' : 'changes'}`;
+
+const summarize = (status: SyncStatus): string => {
+  switch (status.state) {
+    case 'idle':
+      return 'All changes saved';
+    case 'pending':
+      return `${changes(status.pendingCount)} waiting to sync`;
+    case 'saving':
+      return 'Saving...';
+    case 'error':
+      return 'Sync problem';
+    case 'offline':
+      return status.pendingCount > 0 ? `Offline – ${changes(status.pendingCount)} waiting` : 'Offline';
+    case 'conflict':
+      return 'Some changes were not saved';
+  }
+};
+
+const StatusIcon = ({ status }: { status: SyncStatus }) => {
+  switch (status.state) {
+    case 'idle':
+      return <CheckCircle2 className="text-green-600" />;
+    case 'pending':
+      return <Clock className="text-amber-600" />;
+    case 'saving':
+      return <Loader2 className="animate-spin text-blue-600" />;
+    case 'error':
+      return <AlertTriangle className="text-destructive" />;
+    case 'offline':
+      return <CloudOff className="text-muted-foreground" />;
+    case 'conflict':
+      return <AlertTriangle className="text-amber-600" />;
+  }
+};
+
+export const SyncStatusIndicator = ({ tableId, storageService }: SyncStatusIndicatorProps) => {
+  const status = useTable(tableId, state => state.sync);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    try {
+      if (await storageService.syncNow()) {
+        toast.success('Table is up to date');
+      }
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const needsRetry = status.state === 'error' || status.state === 'conflict';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button size="sm" variant="ghost" className="text-xs">
+          <StatusIcon status={status} />
+          {summarize(status)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 text-sm">
+        <div className="flex flex-col gap-3">
+          <p className="font-medium">{summarize(status)}</p>
+
+          {status.state === 'error' && <p className="text-destructive">{status.error}</p>}
+          {status.state === 'offline' && (
+            <p className="text-muted-foreground">
+              Your changes are kept on this device and saved when you're back online.
+            </p>
+          )}
+          {status.state === 'conflict' && status.conflict && (
+            <div className="text-muted-foreground">
+              <p>
+                {status.conflict.reason === 'retries-exhausted'
+                  ? 'The table kept changing while we tried to save; these changes will be retried:'
+                  : 'Someone else edited the same objects, so these changes were dropped:'}
+              </p>
+              <ul className="list-disc pl-5 max-h-24 overflow-y-auto">
+                {status.conflict.operations.map((operation, index) => (
+                  <li key={index}>{operation}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <dl className="grid grid-cols-2 gap-1 text-muted-foreground">
+            <dt>Waiting to sync</dt>
+            <dd className="text-right">{status.pendingCount}</dd>
+            <dt>Last synced</dt>
+            <dd className="text-right">
+              {status.lastSyncedAt
+                ? formatDistanceToNow(new Date(status.lastSyncedAt), { addSuffix: true })
+                : 'Never'}
+            </dd>
+          </dl>
+
+          <Button
+            size="sm"
+            variant={needsRetry ? 'default' : 'outline'}
+            onClick={handleSyncNow}
+            disabled={isSyncing || status.state === 'offline' || status.state === 'saving'}
+          >
+            <RefreshCw className={isSyncing ? 'animate-spin' : ''} />
+            {needsRetry ? 'Retry' : 'Sync now'}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,84 @@
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Archive, ArchiveRestore, Lock, Pencil } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { fetchTableSummary } from "@/services/storageService";
+import type { TableEntry } from "@/services/tableDirectory";
+
+interface TableCardProps {
+  entry: TableEntry;
+  onRename: (tableId: string) => void;
+  onToggleArchived: (tableId: string, archived: boolean) => void;
+}
+
+export const TableCard = ({ entry, onRename, onToggleArchived }: TableCardProps) => {
+  const { data: summary, isLoading, isError } = useQuery({
+    queryKey: ["table-summary", entry.tableId],
+    queryFn: () => fetchTableSummary(entry.tableId),
+    staleTime: 60000,
+    retry: false,
+  });
+
+  const tablePath = `/t/${encodeURIComponent(entry.tableId)}`;
+
+  return (
+    <Card className={`p-4 flex flex-col gap-3 ${entry.archived ? 'opacity-60' : ''}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <Link to={tablePath} className="font-semibold text-foreground hover:underline break-words">
+            {entry.name || entry.tableId}
+          </Link>
+          {entry.name && (
+            <p className="text-xs text-muted-foreground truncate">{entry.tableId}</p>
+          )}
+        </div>
+        <div className="flex gap-1 shrink-0">
+          {summary?.encrypted && (
+            <Badge variant="outline" title="End-to-end encrypted">
+              <Lock className="h-3 w-3" />
+            </Badge>
+          )}
+          {entry.owned && <Badge variant="secondary">Owner</Badge>}
+          {entry.archived && <Badge variant="outline">Archived</Badge>}
+        </div>
+      </div>
+
+      <div className="text-sm text-muted-foreground">
+        {isLoading && <p>Loading...</p>}
+        {isError && <p>Couldn't reach this table</p>}
+        {summary && (
+          <>
+            <p>{summary.encrypted ? 'Encrypted' : `${summary.objectCount} objects`}</p>
+            <p>
+              {summary.lastUpdated
+                ? `Active ${formatDistanceToNow(new Date(summary.lastUpdated), { addSuffix: true })}`
+                : 'No activity yet'}
+            </p>
+          </>
+        )}
+        {entry.lastVisited && (
+          <p className="text-xs mt-1">
+            Visited {formatDistanceToNow(new Date(entry.lastVisited), { addSuffix: true })}
+          </p>
+        )}
+      </div>
+
+      <div className="flex gap-2 mt-auto">
+        <Button asChild size="sm">
+          <Link to={tablePath}>Open</Link>
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => onRename(entry.tableId)}>
+          <Pencil />
+          Rename
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => onToggleArchived(entry.tableId, !entry.archived)}>
+          {entry.archived ? <ArchiveRestore /> : <Archive />}
+          {entry.archived ? 'Restore' : 'Archive'}
+        </Button>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,44 @@
+import { TABLE_BASE_HEIGHT, TABLE_BASE_WIDTH } from "@/lib/tableLayout";
+import type { StoredObject } from "@/services/storageService";
+
+interface TablePreviewProps {
+  objects: StoredObject[];
+  width: number;
+}
+
+// A small, non-interactive picture of a table's objects
+export const TablePreview = ({ objects, width }: TablePreviewProps) => {
+  const scale = width / TABLE_BASE_WIDTH;
+
+  return (
+    <div
+      className="relative overflow-hidden rounded-xl border-4 border-amber-900/20 shadow-inner"
+      style={{
+        width: `${width}px`,
+        height: `${TABLE_BASE_HEIGHT * scale}px`,
+        background: "radial-gradient(ellipse at center, hsl(var(--table-surface)), hsl(var(--table-shadow)))",
+      }}
+    >
+      {objects.map((object) => {
+        const isPaper = object.isText && object.type !== "custom-emoji";
+        return (
+          <div
+            key={object.id}
+            className="absolute"
+            style={{ left: `${object.x * scale}px`, top: `${object.y * scale}px` }}
+            title={isPaper ? object.emoji : object.type}
+          >
+            {isPaper ? (
+              <div
+                className="bg-white border border-gray-300 shadow-sm"
+                style={{ width: `${80 * scale}px`, height: `${113 * scale}px` }}
+              />
+            ) : (
+              <span style={{ fontSize: `${40 * scale}px` }}>{object.emoji}</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
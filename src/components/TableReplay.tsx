@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Pause, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { DraggableObject } from "./DraggableObject";
+import { PassphrasePrompt } from "./PassphrasePrompt";
+import { TABLE_BASE_HEIGHT, TABLE_BASE_WIDTH } from "@/lib/tableLayout";
+import { objectsAt, startsPartway } from "@/services/replay";
+import { getStorageService, type LoggedOperation, type StoredObject } from "@/services/storageService";
+import { PassphraseRequiredError } from "@/services/tableEncryption";
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+// Pauses between recorded events are replayed as they happened, within these bounds
+const MIN_STEP_MS = 80;
+const MAX_STEP_MS = 1500;
+
+const VERBS: Record<LoggedOperation['type'], string> = {
+  add: 'Added',
+  move: 'Moved',
+  edit: 'Changed',
+  remove: 'Removed',
+};
+
+const describeEntry = (entry: LoggedOperation, before: StoredObject[]): string => {
+  const target = entry.type === 'add' ? entry.object : before.find(object => object.id === entry.id);
+  return `${VERBS[entry.type]} ${target ? (target.isText ? `"${target.emoji}"` : target.emoji) : 'an object'}`;
+};
+
+interface TableReplayProps {
+  tableId: string;
+}
+
+export const TableReplay = ({ tableId }: TableReplayProps) => {
+  const storageService = getStorageService(tableId);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [tableScale, setTableScale] = useState(1);
+  const tableRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const { data: timeline, isLoading, isError, error, refetch } = useQuery({
+    queryKey: ["timeline", tableId],
+    queryFn: () => storageService.fetchTimeline(),
+    retry: false,
+  });
+
+  const total = timeline?.entries.length ?? 0;
+  const objects = useMemo(() => (timeline ? objectsAt(timeline, position) : []), [timeline, position]);
+  const previousObjects = useMemo(
+    () => (timeline && position > 0 ? objectsAt(timeline, position - 1) : []),
+    [timeline, position]
+  );
+  const currentEntry = position > 0 ? timeline?.entries[position - 1] : undefined;
+
+  useEffect(() => {
+    const updateScale = () => {
+      if (containerRef.current) {
+        const availableWidth = containerRef.current.clientWidth - 48;
+        setTableScale(Math.min(availableWidth / TABLE_BASE_WIDTH, 1));
+      }
+    };
+
+    updateScale();
+    window.addEventListener('resize', updateScale);
+    return () => window.removeEventListener('resize', updateScale);
+  }, []);
+
+  // Step through the events, keeping their relative timing
+  useEffect(() => {
+    if (!isPlaying || !timeline) {
+      return;
+    }
+    if (position >= total) {
+      setIsPlaying(false);
+      return;
+    }
+    const previous = timeline.entries[position - 1];
+    const next = timeline.entries[position];
+    const gap = previous ? Date.parse(next.at) - Date.parse(previous.at) : 0;
+    const delay = Math.min(Math.max(gap, MIN_STEP_MS), MAX_STEP_MS) / speed;
+    const timer = setTimeout(() => setPosition(current => current + 1), delay);
+    return () => clearTimeout(timer);
+  }, [isPlaying, position, speed, timeline, total]);
+
+  const handlePlayPause = () => {
+    if (!isPlaying && position >= total) {
+      setPosition(0); // Start over from the beginning
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const renderBody = () => {
+    if (isLoading) {
+      return <p className="text-center text-muted-foreground">Loading the table's activity...</p>;
+    }
+    if (error instanceof PassphraseRequiredError) {
+      return <PassphrasePrompt storageService={storageService} onUnlocked={() => refetch()} />;
+    }
+    if (isError || !timeline) {
+      return <p className="text-center text-destructive">Couldn't load this table's activity</p>;
+    }
+    if (!timeline.base || total === 0) {
+      return (
+        <p className="text-center text-muted-foreground">
+          {timeline.base
+            ? 'Nothing has happened on this table yet.'
+            : "This table's recorded activity starts too late to be replayed."}
+        </p>
+      );
+    }
+
+    return (
+      <>
+        <div className="mx-auto mb-6 max-w-3xl flex flex-col gap-4">
+          <div className="flex items-center gap-4">
+            <Button size="icon" onClick={handlePlayPause} aria-label={isPlaying ? 'Pause' : 'Play'}>
+              {isPlaying ? <Pause /> : <Play />}
+            </Button>
+            <Slider
+              value={[position]}
+              max={total}
+              step={1}
+              onValueChange={([value]) => {
+                setIsPlaying(false);
+                setPosition(value);
+              }}
+              className="flex-1"
+            />
+            <span className="text-sm text-muted-foreground tabular-nums whitespace-nowrap">
+              {position} / {total}
+            </span>
+          </div>
+          <div className="flex flex-col sm:flex-row items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              {currentEntry
+                ? `${describeEntry(currentEntry, previousObjects)} · ${new Date(currentEntry.at).toLocaleString()}`
+                : startsPartway(timeline)
+                  ? `The table as it was before ${new Date(timeline.entries[0].at).toLocaleString()}`
+                  : 'Start of the recorded activity'}
+            </p>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={String(speed)}
+              onValueChange={(value) => value && setSpeed(Number(value))}
+            >
+              {SPEEDS.map((option) => (
+                <ToggleGroupItem key={option} value={String(option)} aria-label={`${option}x speed`}>
+                  {option}×
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+          {startsPartway(timeline) && (
+            <p className="text-xs text-muted-foreground">
+              Only the last {total} changes are kept, so the replay starts on{' '}
+              {new Date(timeline.entries[0].at).toLocaleString()} rather than when the table was created.
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-center">
+          <div
+            ref={tableRef}
+            className="relative bg-gradient-to-br from-table-surface to-table-shadow rounded-3xl shadow-2xl border-8 border-amber-900/20"
+            style={{
+              width: `${TABLE_BASE_WIDTH * tableScale}px`,
+              height: `${TABLE_BASE_HEIGHT * tableScale}px`,
+              background: "radial-gradient(ellipse at center, hsl(var(--table-surface)), hsl(var(--table-shadow)))",
+            }}
+          >
+            <div className="absolute inset-4 border-2 border-amber-900/10 rounded-2xl"></div>
+            {objects.map((object) => (
+              <DraggableObject
+                key={object.id}
+                object={object}
+                tableRef={tableRef}
+                scale={tableScale}
+                readOnly
+              />
+            ))}
+          </div>
+        </div>
+
+        <p className="mt-6 text-center text-sm text-muted-foreground">{objects.length} objects</p>
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="w-full max-w-none px-4 py-6" ref={containerRef}>
+        <div className="mb-6 flex items-center justify-between gap-4">
+          <Button size="sm" variant="ghost" asChild>
+            <Link to={`/t/${encodeURIComponent(tableId)}`}>
+              <ArrowLeft />
+              Back to the table
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold text-foreground">Replay</h1>
+          <span className="w-32" />
+        </div>
+        {renderBody()}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+import { useSyncExternalStore } from "react";
+import { getStorageService, type TableState } from "@/services/storageService";
+
+const wholeState = (state: TableState) => state;
+
+/**
+ * Subscribes a component to a table's state. The component re-renders only
+ * when what `select` returns changes, so select a field or compute a
+ * primitive; building a new object or array in it would re-render on every
+ * update.
+ */
+export function useTable(tableId: string): TableState;
+export function useTable<T>(tableId: string, select: (state: TableState) => T): T;
+export function useTable<T>(tableId: string, select: (state: TableState) => T | TableState = wholeState) {
+  const { store } = getStorageService(tableId);
+  return useSyncExternalStore(store.subscribe, () => select(store.getSnapshot()));
+}
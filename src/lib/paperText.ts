@@ -0,0 +1,30 @@
+// Breaks a paper note's text into the lines shown on the note. Used both
+// on screen and when rendering the table to an image, so they wrap alike.
+export const formatTextForPaper = (text: string, maxCharsPerLine = 12, maxLines = 10): string[] => {
+  const words = text.split(' ');
+  const lines = [];
+  let currentLine = '';
+
+  for (const word of words) {
+    if (currentLine.length + word.length + 1 > maxCharsPerLine && currentLine.length > 0) {
+      lines.push(currentLine);
+      currentLine = word;
+
+      if (lines.length >= maxLines) {
+        break;
+      }
+    } else {
+      currentLine = currentLine ? `${currentLine} ${word}` : word;
+    }
+  }
+
+  if (currentLine && lines.length < maxLines) {
+    lines.push(currentLine);
+  }
+
+  if (lines.length === maxLines && words.length > lines.join(' ').split(' ').length) {
+    lines[maxLines - 1] = lines[maxLines - 1].slice(0, -3) + '...';
+  }
+
+  return lines;
+};
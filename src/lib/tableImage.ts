@@ -0,0 +1,105 @@
+// Draws the table to SVG and PNG at its base size, whatever the on-screen
+// scale. Layout follows InteractiveTable and DraggableObject at desktop size.
+import { formatTextForPaper } from "./paperText";
+import { TABLE_BASE_HEIGHT, TABLE_BASE_WIDTH } from "./tableLayout";
+import type { StoredObject } from "@/services/storageService";
+
+const BORDER = 8;
+const OBJECT_SIZE = 65;
+const EMOJI_FONT_SIZE = 40;
+const PAPER_FONT_SIZE = 12;
+const PAPER_LINE_HEIGHT = PAPER_FONT_SIZE * 1.25;
+const PAPER_PADDING = 8;
+const PAPER_MIN_WIDTH = 80;
+const PAPER_MAX_WIDTH = 120;
+const PAPER_MIN_HEIGHT = 100;
+// Average glyph width of the sans font at 12px, to size notes like the browser does
+const PAPER_CHAR_WIDTH = 6.6;
+const FONT_FAMILY =
+  'ui-sans-serif, system-ui, sans-serif, "Apple Color Emoji", "Segoe UI Emoji", "Segoe UI Symbol", "Noto Color Emoji"';
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Theme colours are "h s% l%" custom properties; SVG files need them spelled out
+const themeColor = (variable: string, fallback: string) => {
+  const value = getComputedStyle(document.documentElement).getPropertyValue(variable).trim() || fallback;
+  return `hsl(${value.split(/\s+/).join(', ')})`;
+};
+
+const renderPaper = (object: StoredObject, x: number, y: number, index: number) => {
+  const lines = formatTextForPaper(object.emoji);
+  const longest = Math.max(...lines.map(line => line.length), 0);
+  const width = Math.round(
+    Math.min(Math.max(longest * PAPER_CHAR_WIDTH + PAPER_PADDING * 2 + 2, PAPER_MIN_WIDTH), PAPER_MAX_WIDTH)
+  );
+  const height = Math.round(Math.max(width * 1.414, PAPER_MIN_HEIGHT));
+  const clipId = `paper-${index}`;
+
+  const text = lines
+    .map((line, lineIndex) =>
+      `<tspan x="${x + PAPER_PADDING}" y="${y + PAPER_PADDING + PAPER_FONT_SIZE + lineIndex * PAPER_LINE_HEIGHT}">${escapeXml(line)}</tspan>`
+    )
+    .join('');
+
+  return [
+    `<clipPath id="${clipId}"><rect x="${x}" y="${y}" width="${width}" height="${height}"/></clipPath>`,
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="#ffffff" stroke="#d1d5db" filter="url(#shadow)"/>`,
+    `<text clip-path="url(#${clipId})" font-size="${PAPER_FONT_SIZE}" fill="#000000">${text}</text>`,
+  ].join('');
+};
+
+const renderObject = (object: StoredObject, index: number) => {
+  // Objects are positioned inside the table's border
+  const x = object.x + BORDER;
+  const y = object.y + BORDER;
+  const isCustomEmoji = object.type === 'custom-emoji';
+
+  if (object.isText && !isCustomEmoji) {
+    return renderPaper(object, x, y, index);
+  }
+  // Palette objects sit centred in a fixed box; custom emoji are only as big as the glyph
+  const center = isCustomEmoji ? EMOJI_FONT_SIZE * 0.75 : OBJECT_SIZE / 2;
+  return `<text x="${x + center}" y="${y + center}" font-size="${EMOJI_FONT_SIZE}" text-anchor="middle" dominant-baseline="central">${escapeXml(object.emoji)}</text>`;
+};
+
+export function renderTableSvg(objects: StoredObject[]): string {
+  const surface = themeColor('--table-surface', '30 20% 85%');
+  const shadow = themeColor('--table-shadow', '30 15% 75%');
+  const watermark = themeColor('--muted-foreground', '215.4 16.3% 46.9%');
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${TABLE_BASE_WIDTH}" height="${TABLE_BASE_HEIGHT}" viewBox="0 0 ${TABLE_BASE_WIDTH} ${TABLE_BASE_HEIGHT}" font-family='${FONT_FAMILY}'>`,
+    '<defs>',
+    `<radialGradient id="surface" r="71%"><stop offset="0" stop-color="${surface}"/><stop offset="1" stop-color="${shadow}"/></radialGradient>`,
+    '<filter id="shadow" x="-20%" y="-20%" width="140%" height="140%"><feDropShadow dx="0" dy="4" stdDeviation="4" flood-opacity="0.15"/></filter>',
+    '</defs>',
+    `<rect x="${BORDER / 2}" y="${BORDER / 2}" width="${TABLE_BASE_WIDTH - BORDER}" height="${TABLE_BASE_HEIGHT - BORDER}" rx="20" fill="url(#surface)" stroke="rgba(120, 53, 15, 0.2)" stroke-width="${BORDER}"/>`,
+    `<rect x="${BORDER + 16}" y="${BORDER + 16}" width="${TABLE_BASE_WIDTH - 2 * (BORDER + 16)}" height="${TABLE_BASE_HEIGHT - 2 * (BORDER + 16)}" rx="16" fill="none" stroke="rgba(120, 53, 15, 0.1)" stroke-width="2"/>`,
+    `<text x="${TABLE_BASE_WIDTH - BORDER - 16}" y="${TABLE_BASE_HEIGHT - BORDER - 16}" font-size="36" font-weight="700" letter-spacing="0.9" text-anchor="end" fill="${watermark}" fill-opacity="0.2">THE TABLE</text>`,
+    ...objects.map(renderObject),
+    '</svg>',
+  ].join('\n');
+}
+
+// Rasterises the SVG; `pixelRatio` 2 gives a 1600x1200 image
+export async function renderTablePng(objects: StoredObject[], pixelRatio: number): Promise<Blob> {
+  const svg = new Blob([renderTableSvg(objects)], { type: 'image/svg+xml' });
+  const url = URL.createObjectURL(svg);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = TABLE_BASE_WIDTH * pixelRatio;
+    canvas.height = TABLE_BASE_HEIGHT * pixelRatio;
+    canvas.getContext('2d').drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the PNG'))), 'image/png');
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,5 @@
+// Fixed table aspect ratio (4:3 - width:height)
+export const TABLE_ASPECT_RATIO = 4 / 3;
+// Object positions are stored in this coordinate space and scaled for display
+export const TABLE_BASE_WIDTH = 800;
+export const TABLE_BASE_HEIGHT = TABLE_BASE_WIDTH / TABLE_ASPECT_RATIO; // 600px
@@ -1,7 +1,105 @@
-import { InteractiveTable } from "@/components/InteractiveTable";
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Plus } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { EncryptedTableDialog } from "@/components/EncryptedTableDialog";
+import { TableCard } from "@/components/TableCard";
+import { DEFAULT_TABLE_ID } from "@/services/backends";
+import { createTable } from "@/services/storageService";
+import { shareLink } from "@/services/tableAccess";
+import { listTables, renameTable, setTableArchived, type TableEntry } from "@/services/tableDirectory";
 
 const Index = () => {
-  return <InteractiveTable />;
+  const navigate = useNavigate();
+  const [tables, setTables] = useState<TableEntry[]>(listTables);
+  const [showArchived, setShowArchived] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const refresh = () => setTables(listTables());
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const { tableId } = await createTable();
+      await navigator.clipboard?.writeText(shareLink(tableId)).catch(() => undefined);
+      toast.success('New table created, share link copied');
+      navigate(`/t/${encodeURIComponent(tableId)}`);
+    } catch (error) {
+      console.error('Failed to create table:', error);
+      toast.error('Failed to create a new table');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRename = (tableId: string) => {
+    const current = tables.find(entry => entry.tableId === tableId);
+    const name = prompt("Name for this table (only you see it):", current?.name ?? "");
+    if (name !== null) {
+      renameTable(tableId, name.trim());
+      refresh();
+    }
+  };
+
+  const handleToggleArchived = (tableId: string, archived: boolean) => {
+    setTableArchived(tableId, archived);
+    refresh();
+  };
+
+  const visible = tables.filter(entry => showArchived || !entry.archived);
+  const owned = visible.filter(entry => entry.owned);
+  const recent = visible.filter(entry => !entry.owned);
+
+  const renderSection = (title: string, entries: TableEntry[], empty: string) => (
+    <section className="mb-10">
+      <h2 className="text-xl font-semibold text-foreground mb-4">{title}</h2>
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{empty}</p>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {entries.map(entry => (
+            <TableCard
+              key={entry.tableId}
+              entry={entry}
+              onRename={handleRename}
+              onToggleArchived={handleToggleArchived}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 py-10">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-10">
+          <h1 className="text-4xl font-bold text-foreground tracking-wider">THE TABLE</h1>
+          <div className="flex items-center gap-3">
+            <Button variant="outline" asChild>
+              <Link to={`/t/${encodeURIComponent(DEFAULT_TABLE_ID)}`}>Open the shared table</Link>
+            </Button>
+            <Button onClick={handleCreate} disabled={isCreating}>
+              <Plus />
+              {isCreating ? 'Creating...' : 'New table'}
+            </Button>
+            <EncryptedTableDialog />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 mb-6">
+          <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+          <Label htmlFor="show-archived">Show archived tables</Label>
+        </div>
+
+        {renderSection("Your tables", owned, "Tables you create show up here.")}
+        {renderSection("Recently visited", recent, "Tables you open, including shared links, show up here.")}
+      </div>
+    </div>
+  );
 };
 
 export default Index;
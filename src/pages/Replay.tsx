@@ -0,0 +1,10 @@
+import { useParams } from "react-router-dom";
+import { TableReplay } from "@/components/TableReplay";
+
+const Replay = () => {
+  const { tableId } = useParams<{ tableId: string }>();
+
+  return <TableReplay key={tableId} tableId={tableId} />;
+};
+
+export default Replay;
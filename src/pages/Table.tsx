@@ -0,0 +1,32 @@
+import { useEffect } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
+import { InteractiveTable } from "@/components/InteractiveTable";
+import { rememberTableToken, tokenFromHash } from "@/services/tableAccess";
+import { recordVisit } from "@/services/tableDirectory";
+
+const Table = () => {
+  const { tableId } = useParams<{ tableId: string }>();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  // Share links carry the table's token in the fragment; keep it before the
+  // table's storage is created, then drop it from the address bar
+  const token = tokenFromHash(location.hash);
+  if (token) {
+    rememberTableToken(tableId, token);
+  }
+
+  useEffect(() => {
+    recordVisit(tableId);
+  }, [tableId]);
+
+  useEffect(() => {
+    if (token) {
+      navigate(location.pathname, { replace: true });
+    }
+  }, [token, location.pathname, navigate]);
+
+  return <InteractiveTable key={tableId} tableId={tableId} />;
+};
+
+export default Table;
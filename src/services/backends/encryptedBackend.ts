@@ -0,0 +1,76 @@
+// src/services/backends/encryptedBackend.ts
+import { createOperationLog, DocumentOperationLog, type OperationLog } from '../operationLog';
+import type { LoggedOperation, TableOperation } from '../operations';
+import { resetDocument } from '../revisions';
+import type { StorageData, StoredDocument } from '../storageTypes';
+import { documentContext, isEncryptedDocument, type EncryptedDocument, type TableCipher } from '../tableEncryption';
+import type { SaveOptions, StorageBackend } from './types';
+
+/**
+ * Encrypts and decrypts documents on their way to and from another backend,
+ * for tables protected by a passphrase (see tableEncryption.ts). Plain tables
+ * pass through untouched. An encrypted table's operation log is kept inside
+ * its document, since a server-side log would have to read it.
+ */
+export class EncryptedBackend implements StorageBackend {
+  readonly name: string;
+  private readonly documentLog: OperationLog;
+
+  constructor(
+    private readonly inner: StorageBackend<StoredDocument>,
+    private readonly cipher: TableCipher
+  ) {
+    this.name = inner.name;
+    this.documentLog = new DocumentOperationLog(this);
+  }
+
+  private get log(): OperationLog {
+    return this.cipher.isEncrypted ? this.documentLog : createOperationLog(this.inner);
+  }
+
+  async load(): Promise<StorageData | null> {
+    const stored = await this.inner.load();
+    if (!isEncryptedDocument(stored)) {
+      if (stored) {
+        this.cipher.noteDocument(false);
+      }
+      return stored;
+    }
+    this.cipher.noteDocument(true);
+    return await this.cipher.open<StorageData>(stored.encrypted, documentContext(stored.version));
+  }
+
+  async save(data: StorageData, options?: SaveOptions): Promise<void> {
+    if (!this.cipher.isEncrypted) {
+      return await this.inner.save(data, options);
+    }
+    const sealed: EncryptedDocument = {
+      version: data.version,
+      lastUpdated: data.lastUpdated,
+      encrypted: await this.cipher.seal(data, documentContext(data.version)),
+    };
+    await this.inner.save(sealed, options);
+  }
+
+  async reset(): Promise<StorageData> {
+    if (!this.cipher.isEncrypted) {
+      return await this.inner.reset();
+    }
+    // The server can't empty what it can't read, so the empty document is sealed here
+    const emptyData = resetDocument(await this.load());
+    await this.save(emptyData);
+    return emptyData;
+  }
+
+  async fetchOperations(afterSeq: number, epoch?: string): Promise<LoggedOperation[] | null> {
+    return await this.log.fetchSince(afterSeq, epoch);
+  }
+
+  async fetchChangeTag(): Promise<string | null> {
+    return this.inner.fetchChangeTag ? await this.inner.fetchChangeTag() : null;
+  }
+
+  async appendOperations(operations: TableOperation[], expectedSeq: number, epoch?: string): Promise<LoggedOperation[]> {
+    return await this.log.append(operations, expectedSeq, epoch);
+  }
+}
@@ -0,0 +1,98 @@
+// src/services/backends/index.ts
+import { createEmptyStorageData, type StoredDocument } from '../storageTypes';
+import { JsonBinBackend } from './jsonBinBackend';
+import { LocalStorageBackend } from './localStorageBackend';
+import { RestBackend } from './restBackend';
+import { StorageHttpError, type StorageBackend } from './types';
+
+export type { SaveOptions, StorageBackend } from './types';
+export { StorageConflictError, StorageHttpError } from './types';
+export { EncryptedBackend } from './encryptedBackend';
+
+export type StorageBackendKind = 'proxy' | 'jsonbin' | 'local' | 'rest';
+
+export interface StorageConfig {
+  backend: StorageBackendKind;
+  proxyUrl?: string;
+  jsonBinApiKey?: string;
+  restUrl?: string;
+  localKey?: string;
+}
+
+export interface CreatedTable {
+  tableId: string;
+  // Access token for backends that need one
+  token?: string;
+}
+
+/**
+ * Hands out one backend per table and knows how to make new tables.
+ * `token` is the table's access token, for backends that check one.
+ */
+export interface StorageProvider {
+  readonly kind: StorageBackendKind;
+  backendFor(tableId: string, token?: string): StorageBackend<StoredDocument>;
+  createTable(): Promise<CreatedTable>;
+}
+
+// The table "/" opens
+export const DEFAULT_TABLE_ID = import.meta.env.VITE_TABLE_ID || 'main';
+
+export const readStorageConfig = (): StorageConfig => ({
+  backend: (import.meta.env.VITE_STORAGE_BACKEND as StorageBackendKind) || 'proxy',
+  proxyUrl: import.meta.env.VITE_PROXY_URL || '/api',
+  jsonBinApiKey: import.meta.env.VITE_JSONBIN_API_KEY,
+  restUrl: import.meta.env.VITE_STORAGE_REST_URL,
+  localKey: import.meta.env.VITE_STORAGE_LOCAL_KEY || 'the-table',
+});
+
+const randomTableId = () => Math.random().toString(36).substr(2, 10);
+
+// POST <baseUrl>/tables -> { tableId, token? }
+const createRemoteTable = async (baseUrl: string): Promise<CreatedTable> => {
+  const response = await fetch(`${baseUrl}/tables`, { method: 'POST' });
+  if (!response.ok) {
+    throw StorageHttpError.fromResponse(response);
+  }
+  return await response.json();
+};
+
+export function createStorageProvider(config: StorageConfig = readStorageConfig()): StorageProvider {
+  switch (config.backend) {
+    case 'proxy':
+    case 'rest': {
+      const baseUrl = config.backend === 'proxy' ? config.proxyUrl : config.restUrl;
+      if (!baseUrl) {
+        throw new Error('VITE_STORAGE_REST_URL must be set to use the rest storage backend');
+      }
+      return {
+        kind: config.backend,
+        backendFor: (tableId, token) => new RestBackend(`${baseUrl}/tables/${encodeURIComponent(tableId)}`, token),
+        createTable: () => createRemoteTable(baseUrl),
+      };
+    }
+    case 'local':
+      return {
+        kind: 'local',
+        backendFor: tableId => new LocalStorageBackend(`${config.localKey}:${tableId}`),
+        createTable: async () => ({ tableId: randomTableId() }),
+      };
+    case 'jsonbin': {
+      // Puts the master key in the bundle: only for local experiments with your own bins
+      if (!config.jsonBinApiKey) {
+        throw new Error('VITE_JSONBIN_API_KEY must be set to use the jsonbin storage backend');
+      }
+      const apiKey = config.jsonBinApiKey;
+      return {
+        kind: 'jsonbin',
+        // Table ids are bin ids
+        backendFor: tableId => new JsonBinBackend({ apiKey, binId: tableId }),
+        createTable: async () => ({
+          tableId: await JsonBinBackend.createBin({ apiKey }, createEmptyStorageData()),
+        }),
+      };
+    }
+    default:
+      throw new Error(`Unknown storage backend: ${config.backend}`);
+  }
+}
@@ -0,0 +1,84 @@
+// src/services/backends/jsonBinBackend.ts
+import { resetDocument } from '../revisions';
+import type { StorageData, StoredDocument } from '../storageTypes';
+import { StorageHttpError, type StorageBackend } from './types';
+
+const DEFAULT_BASE_URL = 'https://api.jsonbin.io/v3/b';
+
+export interface JsonBinConfig {
+  apiKey: string;
+  binId: string;
+  baseUrl?: string;
+}
+
+/**
+ * jsonbin has no conditional writes, so `expectedVersion` is ignored here and
+ * StorageService relies on re-reading the bin right before each save.
+ */
+export class JsonBinBackend implements StorageBackend<StoredDocument> {
+  readonly name = 'jsonbin';
+  private readonly baseUrl: string;
+
+  constructor(private readonly config: JsonBinConfig) {
+    this.baseUrl = config.baseUrl ?? DEFAULT_BASE_URL;
+  }
+
+  // Creates a private bin holding `data` and returns its id
+  static async createBin(config: Omit<JsonBinConfig, 'binId'>, data: StorageData): Promise<string> {
+    const response = await fetch(config.baseUrl ?? DEFAULT_BASE_URL, {
+      method: 'POST',
+      headers: {
+        'X-Master-Key': config.apiKey,
+        'X-Bin-Private': 'true',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    });
+
+    if (!response.ok) {
+      throw StorageHttpError.fromResponse(response);
+    }
+
+    const result: { metadata?: { id?: string } } = await response.json();
+    return result.metadata.id;
+  }
+
+  private get headers() {
+    return {
+      'X-Master-Key': this.config.apiKey,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  async load(): Promise<StoredDocument | null> {
+    const response = await fetch(`${this.baseUrl}/${this.config.binId}/latest`, {
+      method: 'GET',
+      headers: this.headers,
+    });
+
+    if (!response.ok) {
+      throw StorageHttpError.fromResponse(response);
+    }
+
+    const data: { record?: StoredDocument } = await response.json();
+    return data.record ?? null;
+  }
+
+  async save(data: StoredDocument): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/${this.config.binId}`, {
+      method: 'PUT',
+      headers: this.headers,
+      body: JSON.stringify(data),
+    });
+
+    if (!response.ok) {
+      throw StorageHttpError.fromResponse(response);
+    }
+  }
+
+  async reset(): Promise<StorageData> {
+    const emptyData = resetDocument(await this.load());
+    await this.save(emptyData);
+    return emptyData;
+  }
+}
@@ -0,0 +1,36 @@
+// src/services/backends/localStorageBackend.ts
+import { resetDocument } from '../revisions';
+import type { StorageData, StoredDocument } from '../storageTypes';
+import { StorageConflictError, type SaveOptions, type StorageBackend } from './types';
+
+/**
+ * Keeps the table in the browser's localStorage. Useful for offline
+ * development; nothing is shared between browsers.
+ */
+export class LocalStorageBackend implements StorageBackend<StoredDocument> {
+  readonly name = 'local';
+
+  constructor(private readonly key: string) {}
+
+  async load(): Promise<StoredDocument | null> {
+    const raw = window.localStorage.getItem(this.key);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async save(data: StoredDocument, options?: SaveOptions): Promise<void> {
+    // Read and write happen in the same task, so this check is atomic per origin
+    if (options?.expectedVersion !== undefined) {
+      const current = await this.load();
+      if (current && current.version !== options.expectedVersion) {
+        throw new StorageConflictError(current.version);
+      }
+    }
+    window.localStorage.setItem(this.key, JSON.stringify(data));
+  }
+
+  async reset(): Promise<StorageData> {
+    const emptyData = resetDocument(await this.load());
+    await this.save(emptyData);
+    return emptyData;
+  }
+}
@@ -0,0 +1,131 @@
+// src/services/backends/restBackend.ts
+import type { LoggedOperation, TableOperation } from '../operations';
+import { createEmptyStorageData, type StorageData, type StoredDocument } from '../storageTypes';
+import { StorageConflictError, StorageHttpError, type SaveOptions, type StorageBackend } from './types';
+
+/**
+ * Talks to a plain REST server that stores one JSON document per URL:
+ *   GET    <url>  -> StoredDocument (404 when nothing is stored yet)
+ *   HEAD   <url>  -> ETag that changes with the document (optional; without
+ *                     it every poll reads the log)
+ *   PUT    <url>  <- StoredDocument (honours If-Match with the expected version,
+ *                     answering 409 or 412 when it no longer matches)
+ *   DELETE <url>  -> empties the document, keeping its revisions
+ *   GET    <url>/operations?after=<seq>  -> LoggedOperation[] (410 when <seq>
+ *                     is older than the retained log)
+ *   POST   <url>/operations  <- { expectedSeq, operations } -> LoggedOperation[]
+ *                     (409 when the log has moved past expectedSeq)
+ */
+export class RestBackend implements StorageBackend<StoredDocument> {
+  readonly name = 'rest';
+
+  constructor(
+    private readonly url: string,
+    // Sent as a bearer token, e.g. the per-table token of the table proxy
+    private readonly token?: string
+  ) {}
+
+  private headers(extra: Record<string, string> = {}): Record<string, string> {
+    return this.token ? { ...extra, 'Authorization': `Bearer ${this.token}` } : extra;
+  }
+
+  async load(): Promise<StoredDocument | null> {
+    const response = await fetch(this.url, {
+      method: 'GET',
+      headers: this.headers({ 'Accept': 'application/json' }),
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw StorageHttpError.fromResponse(response);
+    }
+
+    return await response.json();
+  }
+
+  async fetchChangeTag(): Promise<string | null> {
+    const response = await fetch(this.url, { method: 'HEAD', headers: this.headers() });
+
+    if (response.status === 404 || response.status === 405) {
+      return null;
+    }
+    if (!response.ok) {
+      throw StorageHttpError.fromResponse(response);
+    }
+
+    return response.headers.get('ETag');
+  }
+
+  async save(data: StoredDocument, options?: SaveOptions): Promise<void> {
+    const headers = this.headers({ 'Content-Type': 'application/json' });
+    if (options?.expectedVersion !== undefined) {
+      headers['If-Match'] = `"${options.expectedVersion}"`;
+    }
+
+    const response = await fetch(this.url, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify(data),
+    });
+
+    if (response.status === 409 || response.status === 412) {
+      throw new StorageConflictError();
+    }
+    if (!response.ok) {
+      throw StorageHttpError.fromResponse(response);
+    }
+  }
+
+  async reset(): Promise<StorageData> {
+    const response = await fetch(this.url, { method: 'DELETE', headers: this.headers() });
+
+    if (response.status === 404) {
+      return createEmptyStorageData();
+    }
+    if (!response.ok) {
+      throw StorageHttpError.fromResponse(response);
+    }
+
+    // The emptied document, with the log's new epoch
+    return await response.json();
+  }
+
+  async fetchOperations(afterSeq: number, epoch?: string): Promise<LoggedOperation[] | null> {
+    const query = new URLSearchParams({ after: String(afterSeq) });
+    if (epoch !== undefined) {
+      query.set('epoch', epoch);
+    }
+    const response = await fetch(`${this.url}/operations?${query}`, {
+      method: 'GET',
+      headers: this.headers({ 'Accept': 'application/json' }),
+    });
+
+    if (response.status === 410) {
+      return null;
+    }
+    if (!response.ok) {
+      throw StorageHttpError.fromResponse(response);
+    }
+
+    return await response.json();
+  }
+
+  async appendOperations(operations: TableOperation[], expectedSeq: number, epoch?: string): Promise<LoggedOperation[]> {
+    const response = await fetch(`${this.url}/operations`, {
+      method: 'POST',
+      headers: this.headers({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ expectedSeq, epoch, operations }),
+    });
+
+    if (response.status === 409) {
+      throw new StorageConflictError();
+    }
+    if (!response.ok) {
+      throw StorageHttpError.fromResponse(response);
+    }
+
+    return await response.json();
+  }
+}
@@ -0,0 +1,71 @@
+// src/services/backends/types.ts
+import type { LoggedOperation, TableOperation } from '../operations';
+import type { StorageData, StoredDocument } from '../storageTypes';
+
+export interface SaveOptions {
+  expectedVersion?: number;
+}
+
+/**
+ * A place the table document can be read from and written to.
+ * Implementations only move documents around; merging, batching and
+ * versioning stay in StorageService. Backends that store documents as they
+ * are handle `StoredDocument`s, which may be encrypted; EncryptedBackend
+ * turns one into a backend of plain `StorageData`.
+ */
+export interface StorageBackend<Document extends StoredDocument = StorageData> {
+  readonly name: string;
+  /** Returns the stored document, or null when nothing has been saved yet. */
+  load(): Promise<Document | null>;
+  /**
+   * Writes the document. When `expectedVersion` is given, backends that can
+   * do so atomically reject the write with StorageConflictError if the stored
+   * version has moved on.
+   */
+  save(data: Document, options?: SaveOptions): Promise<void>;
+  /** Empties the stored document, keeping its revisions (see revisions.ts), and returns it. */
+  reset(): Promise<StorageData>;
+  /**
+   * Optional native operation log. Backends without one get a log kept inside
+   * the document (see operationLog.ts).
+   */
+  fetchOperations?(afterSeq: number, epoch?: string): Promise<LoggedOperation[] | null>;
+  /**
+   * Optional cheap change check: a tag (e.g. an ETag) that changes whenever
+   * the document does, so polls can skip reading an unchanged table. Null
+   * when the backend can't tell.
+   */
+  fetchChangeTag?(): Promise<string | null>;
+  appendOperations?(operations: TableOperation[], expectedSeq: number, epoch?: string): Promise<LoggedOperation[]>;
+}
+
+export class StorageHttpError extends Error {
+  constructor(
+    readonly status: number,
+    // Milliseconds the server asked us to wait, from Retry-After
+    readonly retryAfter?: number
+  ) {
+    super(`HTTP error! status: ${status}`);
+    this.name = 'StorageHttpError';
+  }
+
+  static fromResponse(response: Response): StorageHttpError {
+    return new StorageHttpError(response.status, parseRetryAfter(response.headers.get('Retry-After')));
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export class StorageConflictError extends Error {
+  constructor(readonly remoteVersion?: number) {
+    super('Remote document was changed by someone else');
+    this.name = 'StorageConflictError';
+  }
+}
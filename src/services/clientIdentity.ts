@@ -0,0 +1,32 @@
+// src/services/clientIdentity.ts
+const CLIENT_ID_KEY = 'the-table:client-id';
+
+let cachedClientId: string | null = null;
+
+// Stable id for this browser, used to tell replicas apart when merging
+export function getClientId(): string {
+  if (cachedClientId) {
+    return cachedClientId;
+  }
+
+  try {
+    cachedClientId = window.localStorage.getItem(CLIENT_ID_KEY);
+    if (!cachedClientId) {
+      cachedClientId = Math.random().toString(36).substr(2, 10);
+      window.localStorage.setItem(CLIENT_ID_KEY, cachedClientId);
+    }
+  } catch {
+    // Private mode or storage disabled: fall back to a per-session id
+    cachedClientId = Math.random().toString(36).substr(2, 10);
+  }
+
+  return cachedClientId;
+}
+
+// Tabs of one browser share the client id, so each page load adds its own suffix
+const tabSuffix = Math.random().toString(36).substr(2, 4);
+
+// Identifies this tab's replica in write stamps, so two tabs never stamp alike
+export function getReplicaId(): string {
+  return `${getClientId()}.${tabSuffix}`;
+}
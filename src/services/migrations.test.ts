@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, migrateStorageData, migrations, SchemaVersionError } from './migrations';
+import type { StorageData, StoredObject } from './storageTypes';
+
+// Objects as schema version 1 stored them, with a `name` repeating their type
+const legacyObject = (id: string): StoredObject =>
+  ({ id, x: 10, y: 20, type: 'cup', name: 'cup', emoji: '☕', color: 'bg-amber-600' }) as StoredObject;
+
+const legacyDocument = (): StorageData => ({
+  objects: [legacyObject('o1')],
+  lastUpdated: '2024-05-01T10:00:00.000Z',
+  version: 7,
+  seq: 3,
+  log: [
+    { type: 'add', object: legacyObject('o2'), seq: 1, at: '2024-05-01T09:00:00.000Z' },
+    { type: 'edit', id: 'o2', changes: { emoji: '🍵', name: 'cup' } as Partial<StoredObject>, seq: 2, at: '2024-05-01T09:30:00.000Z' },
+    { type: 'move', id: 'o1', x: 10, y: 20, seq: 3, at: '2024-05-01T09:45:00.000Z' },
+  ],
+  logBase: { seq: 0, objects: [legacyObject('o1')] },
+  revisions: [{ number: 1, savedAt: '2024-04-30T12:00:00.000Z', reason: 'autosave', objects: [legacyObject('o3')] }],
+});
+
+const hasName = (value: object) => 'name' in value;
+
+describe('migrations', () => {
+  it('drops names from objects, log entries, the log base and revisions going from 1 to 2', () => {
+    const migrated = migrations[1](legacyDocument());
+
+    expect(migrated.objects.some(hasName)).toBe(false);
+    expect(migrated.logBase?.objects.some(hasName)).toBe(false);
+    expect(migrated.revisions?.[0].objects.some(hasName)).toBe(false);
+
+    const [add, edit, move] = migrated.log ?? [];
+    expect(add.type === 'add' && hasName(add.object)).toBe(false);
+    expect(edit.type === 'edit' && edit.changes).toEqual({ emoji: '🍵' });
+    expect(move).toEqual(legacyDocument().log?.[2]);
+  });
+
+  it('keeps everything but the names', () => {
+    const migrated = migrations[1](legacyDocument());
+
+    expect(migrated.objects).toEqual([{ id: 'o1', x: 10, y: 20, type: 'cup', emoji: '☕', color: 'bg-amber-600' }]);
+    expect(migrated.version).toBe(7);
+    expect(migrated.seq).toBe(3);
+    expect(migrated.logBase?.seq).toBe(0);
+    expect(migrated.revisions?.[0]).toMatchObject({ number: 1, reason: 'autosave' });
+  });
+
+  it('treats a document without a schema version as version 1', () => {
+    const migrated = migrateStorageData(legacyDocument());
+
+    expect(migrated.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(migrated.objects.some(hasName)).toBe(false);
+  });
+
+  it('leaves a current document alone', () => {
+    const current = { ...migrations[1](legacyDocument()), schemaVersion: CURRENT_SCHEMA_VERSION };
+
+    expect(migrateStorageData(current)).toBe(current);
+  });
+
+  it('copes with a document that has no log, log base or revisions', () => {
+    const migrated = migrateStorageData({ objects: [legacyObject('o1')], lastUpdated: '2024-05-01T10:00:00.000Z', version: 1 });
+
+    expect(migrated.objects.some(hasName)).toBe(false);
+    expect(migrated.log).toBeUndefined();
+    expect(migrated.logBase).toBeUndefined();
+    expect(migrated.revisions).toBeUndefined();
+  });
+
+  it('refuses a document from a newer schema', () => {
+    const newer = { ...legacyDocument(), schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+
+    expect(() => migrateStorageData(newer)).toThrow(SchemaVersionError);
+    expect(() => migrateStorageData(newer)).toThrow(
+      expect.objectContaining({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 })
+    );
+  });
+});
@@ -0,0 +1,74 @@
+// src/services/migrations.ts
+//
+// `StorageData.version` counts writes; `schemaVersion` says which shape the
+// document is in. Each migration upgrades a document by one schema version,
+// and documents are brought up to date step by step when they are loaded and
+// before they are written. A document from a newer schema than this client
+// knows is never written: fields it doesn't understand would be lost.
+import type { LoggedOperation } from './operations';
+import type { StorageData } from './storageTypes';
+
+export const CURRENT_SCHEMA_VERSION = 2;
+
+// Documents saved before schema versions existed
+const LEGACY_SCHEMA_VERSION = 1;
+
+type Migration = (data: StorageData) => StorageData;
+
+export class SchemaVersionError extends Error {
+  constructor(readonly schemaVersion: number) {
+    super(`The table uses schema version ${schemaVersion}, newer than this app understands (${CURRENT_SCHEMA_VERSION})`);
+    this.name = 'SchemaVersionError';
+  }
+}
+
+const withoutName = <T extends object>(object: T): T => {
+  const { name, ...rest } = object as T & { name?: unknown };
+  return rest as T;
+};
+
+const entryWithoutName = (entry: LoggedOperation): LoggedOperation => {
+  switch (entry.type) {
+    case 'add':
+      return { ...entry, object: withoutName(entry.object) };
+    case 'edit':
+      return { ...entry, changes: withoutName(entry.changes) };
+    default:
+      return entry;
+  }
+};
+
+// migrations[n] upgrades a document from schema version n to n + 1
+export const migrations: Record<number, Migration> = {
+  // Objects had a `name` that always repeated their `type`
+  1: data => ({
+    ...data,
+    objects: data.objects.map(withoutName),
+    log: data.log?.map(entryWithoutName),
+    logBase: data.logBase && { ...data.logBase, objects: data.logBase.objects.map(withoutName) },
+    revisions: data.revisions?.map(revision => ({ ...revision, objects: revision.objects.map(withoutName) })),
+  }),
+};
+
+export const schemaVersionOf = (data: StorageData): number => data.schemaVersion ?? LEGACY_SCHEMA_VERSION;
+
+/**
+ * Upgrades a stored document to CURRENT_SCHEMA_VERSION. Throws
+ * SchemaVersionError when it is already newer than that.
+ */
+export function migrateStorageData(data: StorageData): StorageData {
+  let schemaVersion = schemaVersionOf(data);
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaVersionError(schemaVersion);
+  }
+
+  let migrated = data;
+  while (schemaVersion < CURRENT_SCHEMA_VERSION) {
+    const migrate = migrations[schemaVersion];
+    if (!migrate) {
+      throw new Error(`No migration from schema version ${schemaVersion}`);
+    }
+    migrated = { ...migrate(migrated), schemaVersion: ++schemaVersion };
+  }
+  return migrated;
+}
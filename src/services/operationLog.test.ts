@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { appendToDocument, operationsSince } from './operationLog';
+import type { TableOperation } from './operations';
+import { resetDocument } from './revisions';
+import { createEmptyStorageData } from './storageTypes';
+
+const add = (id: string): TableOperation => ({
+  type: 'add',
+  object: { id, x: 10, y: 20, type: 'cup', emoji: '☕', color: 'bg-amber-600' },
+});
+
+describe('operation log', () => {
+  it('hands out what a client missed in the same log', () => {
+    const { next } = appendToDocument(createEmptyStorageData(), [add('o1'), add('o2')]);
+
+    expect(operationsSince(next, 1, next.logEpoch)?.map(({ seq }) => seq)).toEqual([2]);
+  });
+
+  it('sends a client back to the snapshot once the log has started over past where it was', () => {
+    const before = appendToDocument(createEmptyStorageData(), [add('o1')]).next;
+    const after = appendToDocument(resetDocument(before), [add('o2'), add('o3')]).next;
+
+    // The reset log has already caught up with the client's position
+    expect(after.seq).toBeGreaterThan(before.seq ?? 0);
+    expect(operationsSince(after, before.seq ?? 0, before.logEpoch)).toBeNull();
+    expect(operationsSince(after, 0, after.logEpoch)).toHaveLength(2);
+  });
+});
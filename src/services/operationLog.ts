@@ -0,0 +1,121 @@
+// src/services/operationLog.ts
+import { StorageConflictError, type StorageBackend } from './backends/types';
+import { applyOperations, type LoggedOperation, type TableOperation } from './operations';
+import { migrateStorageData } from './migrations';
+import { advanceLogBase } from './replay';
+import { recordRevisions } from './revisions';
+import { sanitizeStorageData } from './storageSchema';
+import { createEmptyStorageData, type StorageData, type StoredDocument } from './storageTypes';
+import { EncryptedTableError, isEncryptedDocument } from './tableEncryption';
+import { collectGarbage, recordClientProgress } from './tombstones';
+
+// How many operations a document keeps before older ones only live in the snapshot
+const MAX_LOG_LENGTH = 200;
+
+export interface OperationLog {
+  /**
+   * Operations newer than `afterSeq` in the log `epoch` belongs to (see
+   * StorageData.logEpoch), or null when the caller must reload the snapshot.
+   */
+  fetchSince(afterSeq: number, epoch?: string): Promise<LoggedOperation[] | null>;
+  /** Appends operations if the log still ends at `expectedSeq` of `epoch`, else throws StorageConflictError. */
+  append(operations: TableOperation[], expectedSeq: number, epoch?: string): Promise<LoggedOperation[]>;
+}
+
+export const operationsSince = (data: StorageData, afterSeq: number, epoch?: string): LoggedOperation[] | null => {
+  const seq = data.seq ?? 0;
+  const log = data.log ?? [];
+  if (data.logEpoch !== epoch || afterSeq > seq) {
+    return null; // The document was reset behind our back
+  }
+  const oldestKept = log.length > 0 ? log[0].seq : seq + 1;
+  if (afterSeq < oldestKept - 1) {
+    return null; // Part of what we missed has been compacted away
+  }
+  return log.filter(entry => entry.seq > afterSeq);
+};
+
+export const appendToDocument = (stored: StorageData, operations: TableOperation[]) => {
+  // Writers upgrade and heal the document: bad objects already in it, or
+  // arriving with these operations, are repaired or quarantined before it's saved again
+  const data = sanitizeStorageData(migrateStorageData(stored)).data;
+  const at = new Date().toISOString();
+  let seq = data.seq ?? 0;
+  const entries: LoggedOperation[] = operations.map(operation => ({ ...operation, seq: ++seq, at }));
+
+  const applied = applyOperations(data, entries);
+
+  // Remember where each removal was logged so its tombstone can be collected
+  const tombstones = { ...applied.tombstones };
+  entries.forEach(entry => {
+    if (entry.type !== 'remove') {
+      return;
+    }
+    const tombstone = tombstones[entry.id];
+    if (tombstone && tombstone.stamp === entry.stamp) {
+      tombstones[entry.id] = { ...tombstone, seq: entry.seq };
+    }
+  });
+
+  // Writers have caught up to the end of the log before appending
+  const writers = [...new Set(entries.map(entry => entry.by).filter(Boolean))];
+
+  const log = [...(data.log ?? []), ...entries];
+  const compacted = log.slice(0, Math.max(0, log.length - MAX_LOG_LENGTH));
+
+  const next: StorageData = {
+    ...applied,
+    tombstones,
+    clients: recordClientProgress(data.clients, writers, seq, at),
+    seq,
+    log: log.slice(compacted.length),
+    logBase: advanceLogBase(data, compacted),
+    version: data.version + 1,
+    lastUpdated: at,
+  };
+
+  const checked = sanitizeStorageData(next).data;
+  return {
+    next: { ...checked, ...collectGarbage(checked), revisions: recordRevisions(data, checked, entries) },
+    entries,
+  };
+};
+
+// Emulates an append-only log for backends that can only load and save whole documents
+export class DocumentOperationLog implements OperationLog {
+  constructor(private readonly backend: StorageBackend<StoredDocument>) {}
+
+  private async load(): Promise<StorageData> {
+    const data = await this.backend.load();
+    // Only the table's clients can decrypt it, so they keep its log themselves
+    if (isEncryptedDocument(data)) {
+      throw new EncryptedTableError();
+    }
+    return data || createEmptyStorageData();
+  }
+
+  async fetchSince(afterSeq: number, epoch?: string): Promise<LoggedOperation[] | null> {
+    return operationsSince(await this.load(), afterSeq, epoch);
+  }
+
+  async append(operations: TableOperation[], expectedSeq: number, epoch?: string): Promise<LoggedOperation[]> {
+    const data = await this.load();
+    if ((data.seq ?? 0) !== expectedSeq || data.logEpoch !== epoch) {
+      throw new StorageConflictError(data.version);
+    }
+
+    const { next, entries } = appendToDocument(data, operations);
+    await this.backend.save(next, { expectedVersion: data.version });
+    return entries;
+  }
+}
+
+export function createOperationLog(backend: StorageBackend<StoredDocument>): OperationLog {
+  if (backend.fetchOperations && backend.appendOperations) {
+    return {
+      fetchSince: (afterSeq, epoch) => backend.fetchOperations(afterSeq, epoch),
+      append: (operations, expectedSeq, epoch) => backend.appendOperations(operations, expectedSeq, epoch),
+    };
+  }
+  return new DocumentOperationLog(backend);
+}
@@ -0,0 +1,89 @@
+// src/services/operationQueue.ts
+import type { TableOperation } from './operations';
+
+const DB_NAME = 'the-table';
+const DB_VERSION = 1;
+const STORE_NAME = 'pending-operations';
+// A drag queues a move per pointer event; the queue is written at most this often
+const SAVE_DELAY_MS = 500;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return databasePromise;
+};
+
+const runRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Operations not yet accepted by storage, kept in IndexedDB so edits made
+ * offline or during an outage survive a reload. The whole queue is stored
+ * under one key per table; it stays small because it drains on every save.
+ */
+export class PersistentOperationQueue {
+  // What saveSoon was last given, until it is written
+  private unsaved: TableOperation[] | null = null;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(private readonly key: string) {}
+
+  private get available() {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async load(): Promise<TableOperation[]> {
+    if (!this.available) return [];
+    try {
+      const db = await openDatabase();
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      return (await runRequest(store.get(this.key))) ?? [];
+    } catch (error) {
+      console.error('Error loading queued operations:', error);
+      return [];
+    }
+  }
+
+  // Writes `operations` within SAVE_DELAY_MS, together with whatever comes after them in the meantime
+  saveSoon(operations: TableOperation[]) {
+    this.unsaved = operations;
+    if (this.timer === undefined) {
+      this.timer = setTimeout(() => this.flush(), SAVE_DELAY_MS);
+    }
+  }
+
+  // Writes what saveSoon is holding right away
+  async flush(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const operations = this.unsaved;
+    this.unsaved = null;
+    if (operations) {
+      await this.save(operations);
+    }
+  }
+
+  async save(operations: TableOperation[]): Promise<void> {
+    if (!this.available) return;
+    try {
+      const db = await openDatabase();
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await runRequest(operations.length > 0 ? store.put(operations, this.key) : store.delete(this.key));
+    } catch (error) {
+      console.error('Error persisting queued operations:', error);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+// src/services/operations.ts
+import type { StoredObject } from './storageTypes';
+import {
+  isTombstoned,
+  mergeTableStates,
+  removeObject,
+  updateFields,
+  type Stamp,
+  type TableState,
+} from './tableCrdt';
+
+export type EditableFields = Partial<Pick<StoredObject, 'type' | 'emoji' | 'color' | 'isText'>>;
+
+// `stamp` orders concurrent edits (see tableCrdt.ts); `by` is the client that made the edit;
+// `restores` marks the operations that bring back revision number N (see revisions.ts)
+export type TableOperation = { stamp?: Stamp; by?: string; restores?: number } & (
+  | { type: 'add'; object: StoredObject }
+  | { type: 'move'; id: string; x: number; y: number }
+  | { type: 'remove'; id: string }
+  | { type: 'edit'; id: string; changes: EditableFields }
+);
+
+// An operation once it has been accepted into a table's log
+export type LoggedOperation = TableOperation & {
+  seq: number;
+  at: string;
+};
+
+export const describeOperation = (operation: TableOperation): string => {
+  switch (operation.type) {
+    case 'add':
+      return `add ${operation.object.type} ${operation.object.id}`;
+    case 'move':
+      return `move ${operation.id}`;
+    case 'remove':
+      return `remove ${operation.id}`;
+    case 'edit':
+      return `edit ${operation.id}`;
+    default:
+      return 'unknown operation';
+  }
+};
+
+// Whether the operation still makes sense against `state` (its target exists and wasn't removed)
+export const canApplyOperation = (state: TableState, operation: TableOperation): boolean => {
+  if (operation.type === 'move' || operation.type === 'edit') {
+    const target = state.objects.find(obj => obj.id === operation.id);
+    return target !== undefined && !isTombstoned(state, target);
+  }
+  return true;
+};
+
+export const applyOperation = <T extends TableState>(state: T, operation: TableOperation): T => {
+  switch (operation.type) {
+    case 'add':
+      // An add with a newer stamp replaces any existing object with the same ID
+      return { ...state, ...mergeTableStates(state, { objects: [operation.object] }) };
+    case 'move':
+      return {
+        ...state,
+        ...updateFields(state, operation.id, { x: operation.x, y: operation.y }, operation.stamp, operation.by),
+      };
+    case 'remove':
+      return { ...state, ...removeObject(state, operation.id, operation.stamp, operation.by) };
+    case 'edit':
+      return { ...state, ...updateFields(state, operation.id, operation.changes, operation.stamp, operation.by) };
+    default:
+      // An operation this version doesn't know changes nothing
+      return state;
+  }
+};
+
+export const applyOperations = <T extends TableState>(state: T, operations: TableOperation[]): T =>
+  operations.reduce(applyOperation, state);
@@ -0,0 +1,99 @@
+// src/services/pollScheduler.ts
+
+export interface PollPace {
+  // Nobody is looking at the table
+  hidden: boolean;
+  // Edits arrive over the relay, so polling is only a safety net
+  live: boolean;
+}
+
+// While others are editing
+const ACTIVE_INTERVAL_MS = 5000;
+// How long after the last change from elsewhere polls stay at the active pace
+const ACTIVE_WINDOW_MS = 60000;
+const BASE_INTERVAL_MS = 10000;
+// Each poll that finds nothing new stretches the next wait by this much, up to the max
+const IDLE_GROWTH = 1.5;
+const MAX_IDLE_INTERVAL_MS = 60000;
+const LIVE_INTERVAL_MS = 60000;
+const HIDDEN_INTERVAL_MS = 5 * 60000;
+
+/**
+ * Runs the polling loop. Checks come every few seconds while others are
+ * editing, slow down the longer the table stays unchanged, and nearly stop
+ * while nobody can see it. `poll` resolves true when it found changes.
+ */
+export class PollScheduler {
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private running = false;
+  private polling = false;
+  private lastChangeAt = 0;
+  private idleInterval = BASE_INTERVAL_MS;
+
+  constructor(
+    private readonly poll: () => Promise<boolean>,
+    private readonly pace: () => PollPace
+  ) {}
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    this.setTimer(this.nextDelay());
+  }
+
+  stop() {
+    this.running = false;
+    clearTimeout(this.timer);
+  }
+
+  // Polls right away, e.g. when the tab comes back into view
+  pollNow() {
+    if (!this.running) return;
+    clearTimeout(this.timer);
+    this.run();
+  }
+
+  // Someone else changed the table, however we found out
+  noteChange() {
+    this.lastChangeAt = Date.now();
+    this.idleInterval = BASE_INTERVAL_MS;
+  }
+
+  private nextDelay(): number {
+    const { hidden, live } = this.pace();
+    if (hidden) {
+      return HIDDEN_INTERVAL_MS;
+    }
+    if (live) {
+      return LIVE_INTERVAL_MS;
+    }
+    if (Date.now() - this.lastChangeAt < ACTIVE_WINDOW_MS) {
+      return ACTIVE_INTERVAL_MS;
+    }
+    return this.idleInterval;
+  }
+
+  private setTimer(delay: number) {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.run();
+    }, delay);
+  }
+
+  private async run() {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      if (await this.poll()) {
+        this.noteChange();
+      } else if (Date.now() - this.lastChangeAt >= ACTIVE_WINDOW_MS) {
+        this.idleInterval = Math.min(this.idleInterval * IDLE_GROWTH, MAX_IDLE_INTERVAL_MS);
+      }
+    } finally {
+      this.polling = false;
+      if (this.running) {
+        this.setTimer(this.nextDelay());
+      }
+    }
+  }
+}
@@ -0,0 +1,151 @@
+// src/services/relayTransport.ts
+import type { TableOperation } from './operations';
+import { checkOperations } from './storageSchema';
+import type { TableCipher } from './tableEncryption';
+
+type OperationsListener = (operations: TableOperation[]) => void;
+
+const MIN_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * WebSocket connection to the relay server (server/relay.ts). Operations are
+ * broadcast to everyone else on the same table as soon as they are queued;
+ * when the socket is down callers fall back to polling the storage backend.
+ * On encrypted tables operations travel sealed with the table's key, and
+ * nothing is sent until the table's document shows whether it is encrypted.
+ * The relay only passes messages on once it has accepted the table's token.
+ */
+export class RelayTransport {
+  private socket: WebSocket | null = null;
+  // Whether the relay accepted our token on the current socket
+  private joined = false;
+  private reconnectDelay = MIN_RECONNECT_DELAY;
+  private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  private closed = false;
+  private operationsListeners = new Set<OperationsListener>();
+
+  constructor(
+    private readonly url: string,
+    private readonly tableId: string,
+    private readonly clientId: string,
+    private readonly token: string,
+    private readonly cipher: TableCipher | null = null
+  ) {}
+
+  connect() {
+    this.closed = false;
+    const url = new URL(this.url);
+    url.searchParams.set('table', this.tableId);
+    url.searchParams.set('client', this.clientId);
+
+    const socket = new WebSocket(url.toString());
+    this.socket = socket;
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ type: 'join', token: this.token }));
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data);
+        if (message.type === 'joined') {
+          this.joined = true;
+          this.reconnectDelay = MIN_RECONNECT_DELAY;
+        } else if (message.type === 'operations' && Array.isArray(message.operations)) {
+          // Anyone could send plain operations to an encrypted table
+          if (!this.cipher?.isEncrypted) {
+            this.emitOperations(message.operations);
+          }
+        } else if (message.type === 'sealed' && message.sealed && this.cipher?.isEncrypted) {
+          this.cipher
+            .open<unknown>(message.sealed)
+            .then(operations => this.emitOperations(operations))
+            .catch(error => console.error('Ignoring relay message that could not be decrypted:', error));
+        }
+      } catch (error) {
+        console.error('Ignoring malformed relay message:', error);
+      }
+    };
+
+    socket.onclose = () => {
+      this.socket = null;
+      this.joined = false;
+      this.scheduleReconnect();
+    };
+  }
+
+  // Whatever arrives is only passed on once it checks out as operations
+  private emitOperations(operations: unknown) {
+    if (!Array.isArray(operations)) {
+      console.error('Ignoring relay message without operations');
+      return;
+    }
+    const { valid, rejected } = checkOperations(operations);
+    if (rejected.length > 0) {
+      console.error('Ignoring malformed operations from the relay:', rejected);
+    }
+    if (valid.length > 0) {
+      this.operationsListeners.forEach(listener => listener(valid));
+    }
+  }
+
+  private scheduleReconnect() {
+    if (this.closed) return;
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = setTimeout(() => this.connect(), this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY);
+  }
+
+  disconnect() {
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+  }
+
+  isConnected(): boolean {
+    return this.joined && this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  // Returns false when the operations could not be sent right now
+  send(operations: TableOperation[]): boolean {
+    if (!this.isConnected()) {
+      return false;
+    }
+    if (!this.cipher || this.cipher.isPlain) {
+      this.socket.send(JSON.stringify({ type: 'operations', operations }));
+      return true;
+    }
+    if (!this.cipher.canSeal) {
+      return false;
+    }
+    this.cipher
+      .seal(operations)
+      .then(sealed => {
+        // The socket may have dropped while we were encrypting
+        if (this.isConnected()) {
+          this.socket.send(JSON.stringify({ type: 'sealed', sealed }));
+        }
+      })
+      .catch(error => console.error('Could not encrypt operations for the relay:', error));
+    return true;
+  }
+
+  onOperations(listener: OperationsListener): () => void {
+    this.operationsListeners.add(listener);
+    return () => {
+      this.operationsListeners.delete(listener);
+    };
+  }
+}
+
+// Without a token for the table the relay would turn us away, so there is no transport
+export function createRelayTransport(
+  tableId: string,
+  clientId: string,
+  token: string | undefined,
+  cipher: TableCipher | null = null
+): RelayTransport | null {
+  const url = import.meta.env.VITE_RELAY_URL;
+  return url && token ? new RelayTransport(url, tableId, clientId, token, cipher) : null;
+}
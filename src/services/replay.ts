@@ -0,0 +1,64 @@
+// src/services/replay.ts
+//
+// Rebuilds how a table evolved from its operation log. The log only keeps
+// its most recent operations, so the document also remembers the table as it
+// was right before the oldest one it still has: the starting point of a replay.
+import { applyOperations, type LoggedOperation } from './operations';
+import type { StorageData, StoredObject } from './storageTypes';
+
+export interface LogBase {
+  // Sequence number of the last operation folded into `objects`
+  seq: number;
+  objects: StoredObject[];
+}
+
+export interface Timeline {
+  // Null when the start of the recorded log is no longer known
+  base: LogBase | null;
+  entries: LoggedOperation[];
+}
+
+// Replays apply operations in log order, so write stamps aren't needed
+const withoutClocks = (objects: StoredObject[]) => objects.map(({ clock, ...object }) => object);
+
+const knownBase = (data: StorageData): LogBase | null => {
+  if (data.logBase) {
+    return data.logBase;
+  }
+  const log = data.log ?? [];
+  if (log.length === 0) {
+    return { seq: data.seq ?? 0, objects: withoutClocks(data.objects) };
+  }
+  // Documents from before the base was recorded, whose log hasn't been compacted yet
+  return log[0].seq === 1 ? { seq: 0, objects: [] } : null;
+};
+
+// The base once `dropped`, the oldest log entries, have been compacted away
+export const advanceLogBase = (data: StorageData, dropped: LoggedOperation[]): LogBase | undefined => {
+  const base = knownBase(data);
+  if (!base || dropped.length === 0) {
+    return base ?? undefined;
+  }
+  return {
+    seq: dropped[dropped.length - 1].seq,
+    objects: withoutClocks(applyOperations({ objects: base.objects }, dropped).objects),
+  };
+};
+
+export const timelineOf = (data: StorageData | null): Timeline => {
+  if (!data) {
+    return { base: { seq: 0, objects: [] }, entries: [] };
+  }
+  const base = knownBase(data);
+  return {
+    base,
+    entries: (data.log ?? []).filter(entry => !base || entry.seq > base.seq),
+  };
+};
+
+// Whether operations before the timeline's were compacted away, so it doesn't start with an empty table
+export const startsPartway = (timeline: Timeline): boolean => (timeline.base?.seq ?? 0) > 0;
+
+// The table's objects once the first `position` entries of the timeline have happened
+export const objectsAt = (timeline: Timeline, position: number): StoredObject[] =>
+  applyOperations({ objects: timeline.base?.objects ?? [] }, timeline.entries.slice(0, position)).objects;
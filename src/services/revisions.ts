@@ -0,0 +1,83 @@
+// src/services/revisions.ts
+//
+// Earlier versions of a table, kept inside its document so an accidental
+// reset or mass removal can be undone. Revisions are full copies of the
+// objects, so only a bounded number is kept, oldest dropped first.
+import { migrateStorageData } from './migrations';
+import type { LoggedOperation } from './operations';
+import { createEmptyStorageData, type StorageData, type StoredDocument, type StoredObject } from './storageTypes';
+import { EncryptedTableError, isEncryptedDocument } from './tableEncryption';
+
+const MAX_REVISIONS = 20;
+// While people keep editing, the table is autosaved at most this often
+const AUTOSAVE_INTERVAL_MS = 10 * 60 * 1000;
+// A batch removing at least this many objects keeps what the table looked like before it
+const MASS_REMOVAL = 3;
+
+export type RevisionReason = 'autosave' | 'before-removal' | 'before-reset' | 'before-restore' | 'restore';
+
+export interface Revision {
+  // Increases by one per revision and survives resets
+  number: number;
+  // When the table last looked like this
+  savedAt: string;
+  reason: RevisionReason;
+  // For 'restore': the revision that was brought back
+  restoredFrom?: number;
+  objects: StoredObject[];
+}
+
+const withRevision = (
+  revisions: Revision[],
+  data: StorageData,
+  reason: RevisionReason,
+  restoredFrom?: number
+): Revision[] => {
+  const number = (revisions[revisions.length - 1]?.number ?? 0) + 1;
+  // Clocks are dropped: restoring writes the objects again with fresh stamps
+  const objects = data.objects.map(({ clock, ...object }) => object);
+  const revision: Revision = { number, savedAt: data.lastUpdated, reason, objects };
+  if (restoredFrom !== undefined) {
+    revision.restoredFrom = restoredFrom;
+  }
+  return [...revisions, revision].slice(-MAX_REVISIONS);
+};
+
+// The revisions to keep once `entries` have turned `before` into `after`
+export function recordRevisions(before: StorageData, after: StorageData, entries: LoggedOperation[]): Revision[] {
+  let revisions = before.revisions ?? [];
+
+  const restoring = entries.find(entry => entry.restores !== undefined)?.restores;
+  if (restoring !== undefined) {
+    revisions = withRevision(revisions, before, 'before-restore');
+    return withRevision(revisions, after, 'restore', restoring);
+  }
+
+  const removals = entries.filter(entry => entry.type === 'remove').length;
+  if (removals >= MASS_REMOVAL) {
+    revisions = withRevision(revisions, before, 'before-removal');
+  }
+
+  const latest = revisions[revisions.length - 1];
+  if (!latest || Date.parse(after.lastUpdated) - Date.parse(latest.savedAt) >= AUTOSAVE_INTERVAL_MS) {
+    revisions = withRevision(revisions, after, 'autosave');
+  }
+  return revisions;
+}
+
+const newLogEpoch = () => `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 6)}`;
+
+// An empty document that still has the table's history, including what it held until now
+export const resetDocument = (stored: StoredDocument | null): StorageData => {
+  // Emptying it here would also drop its encryption
+  if (isEncryptedDocument(stored)) {
+    throw new EncryptedTableError();
+  }
+  const current = stored && migrateStorageData(stored);
+  const revisions = current?.revisions ?? [];
+  return {
+    ...createEmptyStorageData(),
+    logEpoch: newLogEpoch(),
+    revisions: current && current.objects.length > 0 ? withRevision(revisions, current, 'before-reset') : revisions,
+  };
+};
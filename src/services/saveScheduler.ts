@@ -0,0 +1,140 @@
+// src/services/saveScheduler.ts
+
+export type SaveOutcome =
+  | { status: 'saved' }
+  // Worth trying again later, e.g. 429, 5xx or a dropped connection
+  | { status: 'retry'; retryAfter?: number }
+  // Retrying on a timer would not help (e.g. 401); wait for the next edit or sync
+  | { status: 'failed' };
+
+/**
+ * Token bucket shared by saves and polling so that together they stay
+ * within the storage provider's request quota.
+ */
+export class RequestBudget {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private readonly requestsPerMinute: number) {
+    this.tokens = requestsPerMinute;
+  }
+
+  private refill() {
+    const now = Date.now();
+    const refilled = ((now - this.lastRefill) / 60000) * this.requestsPerMinute;
+    this.tokens = Math.min(this.requestsPerMinute, this.tokens + refilled);
+    this.lastRefill = now;
+  }
+
+  // Takes `cost` tokens if that leaves at least `reserve` for others
+  tryTake(cost: number, reserve = 0): boolean {
+    this.refill();
+    if (this.tokens - cost < reserve) {
+      return false;
+    }
+    this.tokens -= cost;
+    return true;
+  }
+
+  msUntilAvailable(cost: number): number {
+    this.refill();
+    const missing = cost - this.tokens;
+    return missing <= 0 ? 0 : Math.ceil((missing / this.requestsPerMinute) * 60000);
+  }
+}
+
+interface SaveSchedulerOptions {
+  debounceMs?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Requests one save costs against the budget
+  requestCost?: number;
+}
+
+/**
+ * Runs saves debounced, and after a retryable failure retries with
+ * exponential backoff and jitter (or the server's Retry-After). Edits made
+ * while a retry is pending don't restart the timer; they are simply picked
+ * up by the retried batch.
+ */
+export class SaveScheduler {
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private attempt = 0;
+  private backingOff = false;
+  private readonly debounceMs: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly requestCost: number;
+
+  constructor(
+    private readonly save: () => Promise<SaveOutcome>,
+    private readonly budget: RequestBudget,
+    options: SaveSchedulerOptions = {}
+  ) {
+    this.debounceMs = options.debounceMs ?? 500;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 60000;
+    this.requestCost = options.requestCost ?? 1;
+  }
+
+  // Whether a retry is waiting for its backoff to run out
+  isBackingOff(): boolean {
+    return this.backingOff;
+  }
+
+  schedule() {
+    if (this.backingOff) {
+      return;
+    }
+    this.setTimer(this.debounceMs);
+  }
+
+  // Saves right away unless we're backing off; resolves true once saved
+  async flush(): Promise<boolean> {
+    if (this.backingOff) {
+      return false;
+    }
+    clearTimeout(this.timer);
+    return await this.run();
+  }
+
+  // Saves right away even while backing off, e.g. when the user asks to retry
+  async retryNow(): Promise<boolean> {
+    this.backingOff = false;
+    clearTimeout(this.timer);
+    return await this.run();
+  }
+
+  private setTimer(delay: number) {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.run();
+    }, delay);
+  }
+
+  private async run(): Promise<boolean> {
+    const wait = this.budget.msUntilAvailable(this.requestCost);
+    if (wait > 0 || !this.budget.tryTake(this.requestCost)) {
+      this.setTimer(Math.max(wait, this.debounceMs));
+      return false;
+    }
+
+    const outcome = await this.save();
+    if (outcome.status === 'retry') {
+      this.backingOff = true;
+      this.setTimer(outcome.retryAfter ?? this.nextBackoff());
+      this.attempt++;
+      return false;
+    }
+
+    this.backingOff = false;
+    this.attempt = 0;
+    return outcome.status === 'saved';
+  }
+
+  // Exponential backoff with "equal jitter": half fixed, half random
+  private nextBackoff(): number {
+    const delay = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** this.attempt);
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { applyOperations, type TableOperation } from './operations';
+import { checkLoggedOperations, checkOperations } from './storageSchema';
+import type { StorageData } from './storageTypes';
+
+const table = (): StorageData => ({
+  objects: [{ id: 'o1', x: 10, y: 20, type: 'cup', emoji: '☕', color: 'bg-amber-600' }],
+  lastUpdated: '2024-05-01T10:00:00.000Z',
+  version: 1,
+});
+
+describe('operation checks', () => {
+  it('keeps well formed operations as they were sent', () => {
+    const operations: TableOperation[] = [
+      { type: 'move', id: 'o1', x: 30, y: 40, stamp: '0lnxgqbk0-0000-a', by: 'a' },
+      { type: 'edit', id: 'o1', changes: { emoji: '🍵' } },
+      { type: 'remove', id: 'o1' },
+    ];
+
+    expect(checkOperations(operations)).toEqual({ valid: operations, rejected: [] });
+  });
+
+  it('rejects unknown types, moves without coordinates, edits to other fields and implausible stamps', () => {
+    const { valid, rejected } = checkOperations([
+      { type: 'rotate', id: 'o1' },
+      { type: 'move', id: 'o1' },
+      { type: 'edit', id: 'o1', changes: { x: 5 } },
+      { type: 'remove', id: 'o1', stamp: 'yesterday' },
+      { type: 'remove', id: 'o1', stamp: 'zzzzzzzzz-0000-x' },
+      { type: 'remove', id: 'o1' },
+    ]);
+
+    expect(valid).toEqual([{ type: 'remove', id: 'o1' }]);
+    expect(rejected.map(({ index }) => index)).toEqual([0, 1, 2, 3, 4]);
+    expect(rejected[1].problems).toEqual(['x: missing', 'y: missing']);
+    expect(rejected[4].problems).toEqual(['stamp: too far in the future']);
+  });
+
+  it('requires log entries to carry their position', () => {
+    const { valid } = checkLoggedOperations([
+      { type: 'remove', id: 'o1', seq: 4, at: '2024-05-01T10:00:00.000Z' },
+      { type: 'remove', id: 'o1' },
+    ]);
+
+    expect(valid.map(({ seq }) => seq)).toEqual([4]);
+  });
+
+  it('leaves the table alone for an operation it does not know', () => {
+    const before = table();
+    const unknown = { type: 'rotate', id: 'o1' } as unknown as TableOperation;
+
+    expect(applyOperations(before, [unknown])).toBe(before);
+  });
+});
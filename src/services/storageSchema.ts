@@ -0,0 +1,251 @@
+// src/services/storageSchema.ts
+//
+// Runtime checks for table documents. Storage hands back whatever JSON was
+// written, by any version of the app or by hand, so objects are validated
+// before anything renders them. Fields with an obvious fix are repaired (a
+// coordinate off the table is clamped onto it); objects that can't be drawn
+// at all are moved to the document's quarantine, where they can be inspected
+// and deleted. Operations from the log and the relay are checked too, and
+// dropped rather than repaired.
+import { z } from 'zod';
+import { TABLE_BASE_HEIGHT, TABLE_BASE_WIDTH } from '../lib/tableLayout';
+import type { LoggedOperation, TableOperation } from './operations';
+import type { StorageData, StoredObject } from './storageTypes';
+import { stampTime } from './tableCrdt';
+
+export const KNOWN_OBJECT_TYPES = ['cup', 'book', 'phone', 'plant', 'lamp', 'custom-emoji', 'paper'];
+
+// Objects are 60px boxes positioned by their top left corner
+const OBJECT_EXTENT = 60;
+// Oldest entries are dropped first
+const MAX_QUARANTINE = 50;
+
+export interface QuarantinedObject {
+  key: string;
+  // The object exactly as it was stored
+  object: unknown;
+  problems: string[];
+  quarantinedAt: string;
+}
+
+const coordinate = (max: number) =>
+  z.preprocess(
+    value => (typeof value === 'string' && value.trim() !== '' ? Number(value) : value),
+    z.number({ required_error: 'missing', invalid_type_error: 'not a number' })
+      .finite('not a finite number')
+      .transform(value => Math.min(Math.max(value, 0), max))
+  );
+
+const optionalString = z.string().optional().catch(undefined);
+
+const storedObjectSchema = z.object({
+  id: z.preprocess(
+    value => (typeof value === 'number' ? String(value) : value),
+    z.string({ required_error: 'missing' }).min(1, 'empty')
+  ),
+  type: z.string({ required_error: 'missing' }).refine(type => KNOWN_OBJECT_TYPES.includes(type), 'unknown type'),
+  emoji: z.string({ required_error: 'missing' }).min(1, 'empty'),
+  x: coordinate(TABLE_BASE_WIDTH - OBJECT_EXTENT),
+  y: coordinate(TABLE_BASE_HEIGHT - OBJECT_EXTENT),
+  color: z.string().catch(''),
+  isText: z.boolean().optional().catch(undefined),
+  createdAt: optionalString,
+  createdBy: optionalString,
+  updatedAt: optionalString,
+  updatedBy: optionalString,
+  // Without a clock the object just loses ties to stamped writes
+  clock: z
+    .object({
+      added: z.string(),
+      position: z.string().optional(),
+      content: z.string().optional(),
+      writers: z.object({ position: optionalString, content: optionalString }).optional().catch(undefined),
+    })
+    .optional()
+    .catch(undefined),
+});
+
+// djb2 over the JSON text; only has to tell quarantined objects apart
+const hashJson = (value: unknown): string => {
+  const text = JSON.stringify(value) ?? 'undefined';
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const describeIssues = (error: z.ZodError): string[] =>
+  error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+
+export type ObjectCheck =
+  | { valid: true; object: StoredObject; repaired: boolean }
+  | { valid: false; problems: string[] };
+
+// Validates one stored object, repairing what can be repaired
+export function checkObject(raw: unknown): ObjectCheck {
+  const result = storedObjectSchema.safeParse(raw);
+  if (!result.success) {
+    return {
+      valid: false,
+      problems: describeIssues(result.error),
+    };
+  }
+
+  const object = result.data as StoredObject;
+  // Dropped fields don't count as repairs
+  const original = raw as Record<string, unknown>;
+  const repaired = Object.entries(object).some(
+    ([field, value]) => value !== undefined && JSON.stringify(value) !== JSON.stringify(original[field])
+  );
+  return { valid: true, object, repaired };
+}
+
+export interface SanitizedStorage {
+  data: StorageData;
+  repaired: number;
+  // Objects quarantined by this check, on top of any quarantined before
+  quarantined: QuarantinedObject[];
+}
+
+/**
+ * Checks a stored document: malformed top level fields fall back to
+ * defaults, objects are repaired or quarantined, and duplicate ids after the
+ * first are quarantined too.
+ */
+export function sanitizeStorageData(raw: unknown, now = new Date()): SanitizedStorage {
+  const record = raw && typeof raw === 'object' ? (raw as Partial<StorageData>) : {};
+  const candidates: unknown[] = Array.isArray(record.objects) ? record.objects : [];
+  const quarantinedAt = now.toISOString();
+  const objects: StoredObject[] = [];
+  const quarantined: QuarantinedObject[] = [];
+  const seen = new Set<string>();
+  let repaired = 0;
+
+  const previous = Array.isArray(record.quarantine) ? record.quarantine : [];
+  const keys = new Set(previous.map(entry => entry.key));
+  const quarantine = (object: unknown, problems: string[]) => {
+    // Keys follow from the content, so checking the same document twice
+    // yields the same keys whether or not the quarantine was saved between
+    const base = `q-${hashJson(object)}`;
+    let key = base;
+    for (let n = 1; keys.has(key); n++) {
+      key = `${base}-${n}`;
+    }
+    keys.add(key);
+    quarantined.push({ key, object, problems, quarantinedAt });
+  };
+
+  candidates.forEach(candidate => {
+    const check = checkObject(candidate);
+    if (check.valid === false) {
+      quarantine(candidate, check.problems);
+    } else if (seen.has(check.object.id)) {
+      quarantine(candidate, [`id: duplicate of another object (${check.object.id})`]);
+    } else {
+      seen.add(check.object.id);
+      objects.push(check.object);
+      if (check.repaired) {
+        repaired++;
+      }
+    }
+  });
+
+  const data: StorageData = {
+    ...record,
+    objects,
+    lastUpdated: typeof record.lastUpdated === 'string' ? record.lastUpdated : quarantinedAt,
+    version: Number.isInteger(record.version) ? record.version : 1,
+    quarantine: [...previous, ...quarantined].slice(-MAX_QUARANTINE),
+  };
+  return { data, repaired, quarantined };
+}
+
+// How far ahead of our clock a stamp may be. Replicas follow the newest stamp
+// they have seen, so one from the far future would drag every clock after it.
+const MAX_STAMP_LEAD_MS = 10 * 60 * 1000;
+
+// `<wall time>-<counter>-<replica>`, as tableCrdt.ts formats them
+const stampSchema = z
+  .string()
+  .regex(/^[0-9a-z]{9}-[0-9a-z]{4}-./, 'not a stamp')
+  .refine(stamp => stampTime(stamp) <= Date.now() + MAX_STAMP_LEAD_MS, 'too far in the future');
+
+const operationTarget = z.string({ required_error: 'missing' }).min(1, 'empty');
+
+const operationFields = {
+  stamp: stampSchema.optional(),
+  by: z.string().optional(),
+  restores: z.number().int().optional(),
+};
+
+const tableOperationSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...operationFields,
+    type: z.literal('add'),
+    // Only what applying the add relies on; the object itself is checked like any stored object
+    object: z.object({ id: operationTarget }).passthrough(),
+  }),
+  z.object({
+    ...operationFields,
+    type: z.literal('move'),
+    id: operationTarget,
+    x: z.number({ required_error: 'missing' }).finite('not a finite number'),
+    y: z.number({ required_error: 'missing' }).finite('not a finite number'),
+  }),
+  z.object({ ...operationFields, type: z.literal('remove'), id: operationTarget }),
+  z.object({
+    ...operationFields,
+    type: z.literal('edit'),
+    id: operationTarget,
+    changes: z
+      .object({
+        type: z.string().optional(),
+        emoji: z.string().optional(),
+        color: z.string().optional(),
+        isText: z.boolean().optional(),
+      })
+      .strict(),
+  }),
+]);
+
+const loggedOperationSchema = z.intersection(
+  tableOperationSchema,
+  z.object({ seq: z.number().int(), at: z.string() })
+);
+
+export interface RejectedOperation {
+  // Position in the batch it came in
+  index: number;
+  problems: string[];
+}
+
+export interface OperationCheck<T> {
+  valid: T[];
+  rejected: RejectedOperation[];
+}
+
+const checkWith =
+  <T>(schema: z.ZodType) =>
+  (raw: unknown[]): OperationCheck<T> => {
+    const valid: T[] = [];
+    const rejected: RejectedOperation[] = [];
+    raw.forEach((operation, index) => {
+      const result = schema.safeParse(operation);
+      if (result.success) {
+        // Kept as sent; the check only decides whether it can be applied
+        valid.push(operation as T);
+      } else {
+        rejected.push({
+          index,
+          problems: describeIssues(result.error),
+        });
+      }
+    });
+    return { valid, rejected };
+  };
+
+// Splits a batch of operations into those that can be applied and those that can't
+export const checkOperations = checkWith<TableOperation>(tableOperationSchema);
+
+export const checkLoggedOperations = checkWith<LoggedOperation>(loggedOperationSchema);
@@ -1,214 +1,896 @@
 // src/services/storageService.ts
-interface StoredObject {
-  id: string;
-  name: string;
-  x: number;
-  y: number;
-  type: string;
-  emoji: string;
-  color: string;
-  isText?: boolean;
+import {
+  createStorageProvider,
+  EncryptedBackend,
+  StorageConflictError,
+  StorageHttpError,
+  type CreatedTable,
+  type StorageBackend,
+} from './backends';
+import { migrateStorageData, SchemaVersionError } from './migrations';
+import { createOperationLog, type OperationLog } from './operationLog';
+import {
+  applyOperations,
+  canApplyOperation,
+  describeOperation,
+  type LoggedOperation,
+  type TableOperation,
+} from './operations';
+import { getClientId, getReplicaId } from './clientIdentity';
+import { PersistentOperationQueue } from './operationQueue';
+import { createRelayTransport, type RelayTransport } from './relayTransport';
+import { timelineOf, type Timeline } from './replay';
+import type { Revision } from './revisions';
+import { PollScheduler } from './pollScheduler';
+import { RequestBudget, SaveScheduler, type SaveOutcome } from './saveScheduler';
+import {
+  checkLoggedOperations,
+  checkOperations,
+  sanitizeStorageData,
+  type QuarantinedObject,
+  type RejectedOperation,
+} from './storageSchema';
+import { createTabChannel, type TabChannel, type TabMessage } from './tabChannel';
+import { getTableToken, rememberTableToken } from './tableAccess';
+import { recordCreated } from './tableDirectory';
+import { createEmptyStorageData, type StorageData, type StoredObject } from './storageTypes';
+import { HybridClock, stampObject } from './tableCrdt';
+import { changeOperations, diffTables, type TableChanges } from './tableDiff';
+import {
+  isEncryptedDocument,
+  PassphraseRequiredError,
+  TableCipher,
+  WrongPassphraseError,
+} from './tableEncryption';
+import { TableStore, type TableState } from './tableStore';
+import { UndoHistory } from './undoHistory';
+
+export type { StorageData, StoredObject } from './storageTypes';
+export type { LoggedOperation, TableOperation } from './operations';
+export type { Timeline } from './replay';
+export type { TableChanges } from './tableDiff';
+export type { TableState } from './tableStore';
+export type { Revision, RevisionReason } from './revisions';
+export type { QuarantinedObject } from './storageSchema';
+
+export interface StorageConflict {
+  reason: 'rejected-operations' | 'retries-exhausted';
+  remoteSeq: number;
+  operations: string[];
 }
 
-interface StorageData {
-  objects: StoredObject[];
-  lastUpdated: string;
-  version: number;
+type ConflictListener = (conflict: StorageConflict) => void;
+
+export type SyncState = 'idle' | 'pending' | 'saving' | 'error' | 'offline' | 'conflict';
+
+export interface SyncStatus {
+  state: SyncState;
+  // Edits not saved yet, including a batch being written
+  pendingCount: number;
+  // When we last heard from storage successfully (ISO time)
+  lastSyncedAt: string | null;
+  // Why the last load, check or save failed, for 'error'
+  error?: string;
+  // The edits that lost out, for 'conflict'
+  conflict?: StorageConflict;
 }
 
-class StorageService {
-  private readonly API_KEY = '$2a$10$4LPqPSvKZrjEKJa3NPyrb.vYJgKRiG4EzIzSJoIBXtgWbw7C7ppZK'; // Replace with your actual API key
-  private readonly BIN_ID = '688f6896ae596e708fc0a5e7'; // Replace with your bin ID
-  private readonly BASE_URL = 'https://api.jsonbin.io/v3/b';
+// 'replace' makes the table match the file; 'merge' only adds and updates
+export type ImportMode = 'replace' | 'merge';
+
+/**
+ * 'unavailable' means we have never managed to read the remote document.
+ * Writes are held back in that state: saving on top of an empty guess would
+ * wipe everyone else's objects. 'locked' is the same for an encrypted table
+ * we don't have the right passphrase for.
+ */
+export type RemoteState = 'loading' | 'ready' | 'unavailable' | 'locked';
+
+const MAX_SAVE_ATTEMPTS = 3;
+// A save catches up on the log, then reads and writes the document
+const SAVE_REQUEST_COST = 3;
+const REQUESTS_PER_MINUTE = Number(import.meta.env.VITE_STORAGE_REQUESTS_PER_MINUTE) || 30;
+// A follower that checked in this recently counts as someone looking at the table
+const ACTIVE_TAB_TIMEOUT_MS = 90000;
+
+const classifySaveError = (error: unknown): SaveOutcome => {
+  if (error instanceof StorageHttpError) {
+    if (error.status === 429 || error.status >= 500) {
+      return { status: 'retry', retryAfter: error.retryAfter };
+    }
+    return { status: 'failed' };
+  }
+  // fetch rejects with a TypeError when the network is unreachable
+  return { status: 'retry' };
+};
+
+const describeSyncError = (error: unknown): string => {
+  if (error instanceof SchemaVersionError) {
+    return 'This table was saved by a newer version of the app; reload the page to update';
+  }
+  if (error instanceof PassphraseRequiredError) {
+    return 'This table is encrypted; enter its passphrase';
+  }
+  if (error instanceof WrongPassphraseError) {
+    return 'Wrong passphrase';
+  }
+  if (error instanceof StorageHttpError) {
+    if (error.status === 429) {
+      return 'Storage rate limit reached';
+    }
+    if (error.status === 401 || error.status === 403) {
+      return 'Not allowed to access this table';
+    }
+    if (error.status >= 500) {
+      return `Storage is unavailable (HTTP ${error.status})`;
+    }
+    return `Storage rejected the request (HTTP ${error.status})`;
+  }
+  if (error instanceof TypeError) {
+    return 'Network error';
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+};
+
+const warnRejected = (source: string, rejected: RejectedOperation[]) => {
+  if (rejected.length > 0) {
+    console.warn(`Dropped ${rejected.length} malformed operations from ${source}:`, rejected);
+  }
+};
+
+const normalizeStorageData = (record: StorageData | null): StorageData => {
+  const { data, repaired, quarantined } = sanitizeStorageData(migrateStorageData(record || createEmptyStorageData()));
+  if (repaired > 0 || quarantined.length > 0) {
+    console.warn(`Loaded table data: repaired ${repaired} objects, quarantined ${quarantined.length}`);
+  }
+  return {
+    objects: data.objects,
+    lastUpdated: data.lastUpdated,
+    version: data.version,
+    schemaVersion: data.schemaVersion,
+    seq: data.seq || 0,
+    log: data.log || [],
+    tombstones: data.tombstones || {},
+    detached: data.detached || {},
+    clients: data.clients || {},
+    quarantine: data.quarantine
+  };
+};
+
+export class StorageService {
   private cache: StorageData | null = null;
-  private pendingOperations: Array<() => void> = [];
+  private pendingOperations: TableOperation[] = [];
+  // The batch currently being written; kept in the persisted queue until it lands
+  private inFlight: TableOperation[] = [];
+  private queueRestored = false;
+  private remoteState: RemoteState = 'loading';
   private isProcessing = false;
-  private lastVersion = 0;
-
-  // Debounced save function to batch operations
-  private debouncedSave = this.debounce(async () => {
-    await this.processPendingOperations();
-  }, 500);
-
-  private debounce(func: Function, wait: number) {
-    let timeout: NodeJS.Timeout;
-    return (...args: any[]) => {
-      clearTimeout(timeout);
-      timeout = setTimeout(() => func.apply(this, args), wait);
-    };
+  private lastSeq = 0;
+  private conflictListeners = new Set<ConflictListener>();
+  private lastError: string | null = null;
+  private lastConflict: StorageConflict | null = null;
+  private lastSyncedAt: string | null = null;
+  // The backend's change tag as of our last poll
+  private changeTag: string | null = null;
+  // When a follower tab last said it was in view
+  private activeTabAt = 0;
+  // What the leader tab last reported, while another tab leads
+  private leaderStatus: SyncStatus | null = null;
+  private readonly undoHistory = new UndoHistory();
+  private readonly log: OperationLog;
+  // What the table's UI renders; see useTable
+  readonly store: TableStore;
+  private readonly clock = new HybridClock(getReplicaId());
+  private readonly budget = new RequestBudget(REQUESTS_PER_MINUTE);
+  private readonly scheduler = new SaveScheduler(
+    () => this.processPendingOperations(),
+    this.budget,
+    { requestCost: SAVE_REQUEST_COST }
+  );
+  private readonly poller = new PollScheduler(
+    () => this.poll(),
+    () => ({ hidden: this.isHidden(), live: this.isLive() })
+  );
+
+  constructor(
+    private readonly backend: StorageBackend,
+    private readonly relay: RelayTransport | null = null,
+    private readonly queue: PersistentOperationQueue | null = null,
+    private readonly tabs: TabChannel | null = null,
+    private readonly cipher: TableCipher | null = null
+  ) {
+    this.log = createOperationLog(backend);
+    this.store = new TableStore(this.currentState());
+    this.relay?.onOperations(operations => this.applyRemoteOperations(operations));
+    this.tabs?.onMessage(message => this.handleTabMessage(message));
+    this.tabs?.onLeadershipChange(leading => {
+      if (leading) {
+        this.takeLead();
+      }
+    });
+
+    // Replay whatever piled up while we were offline, and catch up
+    window.addEventListener('online', () => {
+      this.scheduler.flush();
+      this.publish();
+      this.poller.pollNow();
+    });
+    window.addEventListener('offline', () => this.notifyPendingChange());
+    // The queue is written with a delay; don't lose its last changes with the page
+    window.addEventListener('pagehide', () => this.queue?.flush());
+    // Catch up as soon as the table comes back into view
+    document.addEventListener('visibilitychange', () => {
+      if (document.hidden) {
+        this.queue?.flush();
+        return;
+      }
+      this.tabs?.post({ type: 'active' });
+      this.poller.pollNow();
+    });
   }
 
   async loadObjects(): Promise<StoredObject[]> {
-    try {
-      const response = await fetch(`${this.BASE_URL}/${this.BIN_ID}/latest`, {
-        method: 'GET',
-        headers: {
-          'X-Master-Key': this.API_KEY,
-          'Content-Type': 'application/json',
-        },
-      });
+    await this.restoreQueue();
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const record = data.record || { objects: [], lastUpdated: new Date().toISOString(), version: 1 };
-      
-      // Update cache and version
-      this.cache = {
-        objects: record.objects || [],
-        lastUpdated: record.lastUpdated || new Date().toISOString(),
-        version: record.version || 1
-      };
-      this.lastVersion = this.cache.version;
-      
-      return this.cache.objects;
+    try {
+      // Update cache and the position in the operation log
+      this.cache = normalizeStorageData(await this.backend.load());
+      this.lastSeq = this.cache.seq;
+      this.cache.log.forEach(entry => this.clock.observe(entry.stamp));
+      this.markSynced();
     } catch (error) {
       console.error('Error loading objects:', error);
-      // Initialize cache with empty data if load fails
-      this.cache = {
-        objects: [],
-        lastUpdated: new Date().toISOString(),
-        version: 1
-      };
+      this.lastError = describeSyncError(error);
+      this.publish();
+      // Never fall back to an empty document: the next save would overwrite
+      // the real table with it. Keep the last good copy if we have one.
+      if (!this.cache) {
+        const locked = error instanceof PassphraseRequiredError || error instanceof WrongPassphraseError;
+        this.setRemoteState(locked ? 'locked' : 'unavailable');
+      }
+      throw error;
+    }
+
+    const wasBlocked = this.remoteState !== 'ready';
+    this.setRemoteState('ready');
+    // Release edits that were held back while the remote state was unknown
+    if (wasBlocked && this.pendingOperations.length > 0) {
+      this.scheduler.schedule();
+    }
+    this.publish();
+    return this.getVisibleObjects();
+  }
+
+  // Tries the initial load again after it failed
+  async retryLoad(): Promise<StoredObject[]> {
+    this.setRemoteState('loading');
+    return await this.loadObjects();
+  }
+
+  // Whether the table is end-to-end encrypted, as far as we know yet
+  get isEncrypted(): boolean {
+    return this.cipher?.isEncrypted ?? false;
+  }
+
+  // Opens an encrypted table; rejects with WrongPassphraseError when the passphrase doesn't fit
+  async unlock(passphrase: string): Promise<StoredObject[]> {
+    this.cipher?.unlock(passphrase);
+    return await this.retryLoad();
+  }
+
+  /**
+   * Encrypts the table from now on, including what it already holds. Meant
+   * for new tables: earlier copies of the document, e.g. in jsonbin's version
+   * history, stay readable.
+   */
+  async protect(passphrase: string) {
+    if (!this.cipher) {
+      throw new Error('This table cannot be encrypted');
+    }
+    this.cipher.protect(passphrase);
+    const stored = await this.loadStored();
+    const data = stored ?? createEmptyStorageData();
+    await this.backend.save(
+      { ...data, version: data.version + 1, lastUpdated: new Date().toISOString() },
+      { expectedVersion: stored?.version }
+    );
+  }
+
+  private setRemoteState(state: RemoteState) {
+    if (state === this.remoteState) {
+      return;
+    }
+    this.remoteState = state;
+    this.publish();
+  }
+
+  // Picks up operations a previous session, or a leader tab that went away,
+  // queued but never managed to save. The leader tab owns the stored queue.
+  private async restoreQueue() {
+    if (this.queueRestored || !this.queue || this.isFollowing) {
+      return;
+    }
+    this.queueRestored = true;
+
+    const queued = new Set(this.queuedOperations.map(operation => operation.stamp));
+    const restored = (await this.queue.load()).filter(operation => !queued.has(operation.stamp));
+    if (restored.length === 0) {
+      return;
+    }
+    restored.forEach(operation => this.clock.observe(operation.stamp));
+    this.pendingOperations = [...restored, ...this.pendingOperations];
+    this.notifyPendingChange();
+    this.scheduler.schedule();
+  }
+
+  private get queuedOperations(): TableOperation[] {
+    return [...this.inFlight, ...this.pendingOperations];
+  }
+
+  private notifyPendingChange() {
+    const queued = this.queuedOperations;
+    if (!this.isFollowing) {
+      this.queue?.saveSoon(queued);
+    }
+    this.publish();
+  }
+
+  private markSynced() {
+    this.lastSyncedAt = new Date().toISOString();
+    this.lastError = null;
+  }
+
+  private getSyncStatus(): SyncStatus {
+    // The leader's queue holds this tab's edits too once it has accepted them
+    if (this.isFollowing && this.leaderStatus) {
+      return this.leaderStatus;
+    }
+    const status = {
+      pendingCount: this.queuedOperations.length,
+      lastSyncedAt: this.lastSyncedAt,
+    };
+    if (!navigator.onLine) {
+      return { ...status, state: 'offline' };
+    }
+    if (this.isProcessing) {
+      return { ...status, state: 'saving' };
+    }
+    if (this.remoteState === 'unavailable' || this.remoteState === 'locked' || this.lastError) {
+      return { ...status, state: 'error', error: this.lastError ?? 'Could not load the table' };
+    }
+    if (this.lastConflict) {
+      return { ...status, state: 'conflict', conflict: this.lastConflict };
+    }
+    return { ...status, state: status.pendingCount > 0 ? 'pending' : 'idle' };
+  }
+
+  private currentState(): TableState {
+    return {
+      objects: this.getVisibleObjects(),
+      remoteState: this.remoteState,
+      sync: this.getSyncStatus(),
+      canUndo: this.undoHistory.canUndo(),
+      canRedo: this.undoHistory.canRedo(),
+      quarantineCount: this.cache?.quarantine?.length ?? 0,
+    };
+  }
+
+  // Pushes the current state to the store the UI renders from
+  private publish() {
+    const state = this.currentState();
+    this.store.update(state);
+    if (this.tabs?.isLeader()) {
+      this.tabs.post({ type: 'status', status: state.sync });
+    }
+  }
+
+  /**
+   * Checks storage for changes and saves anything queued right away, without
+   * waiting out a backoff. For when the user asks; resolves true when the
+   * table is fully in sync.
+   */
+  async syncNow(): Promise<boolean> {
+    try {
+      if (this.remoteState !== 'ready') {
+        await this.retryLoad();
+      } else {
+        await this.pullOperations();
+      }
+    } catch (error) {
+      console.error('Error syncing objects:', error);
+      this.lastError = describeSyncError(error);
+      this.publish();
+      return false;
+    }
+    this.lastConflict = null;
+
+    this.publish();
+
+    if (this.isFollowing) {
+      // Saving is the leader's job; make sure it has everything we queued
+      this.forwardQueue();
+      return this.pendingOperations.length === 0;
+    }
+    const saved = this.pendingOperations.length === 0 || (await this.scheduler.retryNow());
+    this.publish();
+    return saved;
+  }
+
+  // Applies operations other clients logged since we last looked
+  private async pullOperations(): Promise<LoggedOperation[]> {
+    const newer = await this.log.fetchSince(this.lastSeq, this.cache?.logEpoch);
+    if (newer === null) {
+      await this.loadObjects();
       return [];
     }
+    this.applyLogged(newer);
+    this.markSynced();
+    return newer;
   }
 
-  private async processPendingOperations(): Promise<boolean> {
-    if (this.isProcessing || this.pendingOperations.length === 0 || !this.cache) {
-      return true;
+  private applyLogged(entries: LoggedOperation[]) {
+    const fresh = entries.filter(entry => entry.seq > this.lastSeq);
+    if (!this.cache || fresh.length === 0) {
+      return;
+    }
+    const { valid, rejected } = checkLoggedOperations(fresh);
+    warnRejected('log', rejected);
+    valid.forEach(entry => this.clock.observe(entry.stamp));
+    this.cache = {
+      ...sanitizeStorageData(applyOperations(this.cache, valid)).data,
+      seq: fresh[fresh.length - 1].seq,
+      lastUpdated: fresh[fresh.length - 1].at,
+    };
+    this.lastSeq = this.cache.seq;
+    if (this.tabs?.isLeader()) {
+      this.tabs.post({ type: 'logged', entries: fresh });
+    }
+  }
+
+  private async processPendingOperations(): Promise<SaveOutcome> {
+    if (this.isProcessing || this.pendingOperations.length === 0) {
+      return { status: 'saved' };
+    }
+    if (!this.cache) {
+      // Blocked until a load succeeds; loadObjects reschedules us
+      return { status: 'failed' };
+    }
+    if (!navigator.onLine) {
+      // Stay queued; the online event replays the queue
+      return { status: 'failed' };
+    }
+    if (this.isFollowing) {
+      // The leader tab saves what we forwarded; it is rescheduled if we take over
+      return { status: 'failed' };
     }
 
     this.isProcessing = true;
-    
+    this.publish();
+    let batch = this.pendingOperations;
+    this.pendingOperations = [];
+    this.inFlight = batch;
+
     try {
-      // Apply all pending operations to the cache
-      this.pendingOperations.forEach(operation => operation());
-      this.pendingOperations = [];
-
-      // Increment version for conflict detection
-      this.cache.version = this.lastVersion + 1;
-      this.cache.lastUpdated = new Date().toISOString();
-
-      const response = await fetch(`${this.BASE_URL}/${this.BIN_ID}`, {
-        method: 'PUT',
-        headers: {
-          'X-Master-Key': this.API_KEY,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(this.cache),
-      });
+      for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+        // Catch up first so we never append on top of a log we haven't seen
+        await this.pullOperations();
+
+        // Rebase queued operations on top of the fresh state
+        const rejected: TableOperation[] = [];
+        let state = this.cache;
+        batch = batch.filter(operation => {
+          if (!canApplyOperation(state, operation)) {
+            rejected.push(operation);
+            return false;
+          }
+          state = applyOperations(state, [operation]);
+          return true;
+        });
+        if (rejected.length > 0) {
+          this.inFlight = batch;
+          this.emitConflict({
+            reason: 'rejected-operations',
+            remoteSeq: this.lastSeq,
+            operations: rejected.map(describeOperation),
+          });
+        }
+        if (batch.length === 0) {
+          this.inFlight = [];
+          return { status: 'saved' };
+        }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        try {
+          const appended = await this.log.append(batch, this.lastSeq, this.cache.logEpoch);
+          this.applyLogged(appended);
+          this.inFlight = [];
+          this.markSynced();
+          if (rejected.length === 0) {
+            this.lastConflict = null;
+          }
+          // Edits made while we were writing go out in the next batch
+          if (this.pendingOperations.length > 0) {
+            this.scheduler.schedule();
+          }
+          return { status: 'saved' };
+        } catch (error) {
+          if (error instanceof StorageConflictError) {
+            continue;
+          }
+          throw error;
+        }
       }
 
-      this.lastVersion = this.cache.version;
-      return true;
+      this.emitConflict({
+        reason: 'retries-exhausted',
+        remoteSeq: this.lastSeq,
+        operations: batch.map(describeOperation),
+      });
+      this.requeue(batch);
+      return { status: 'retry' };
     } catch (error) {
       console.error('Error saving objects:', error);
-      // Reset pending operations on failure
-      this.pendingOperations = [];
-      return false;
+      this.lastError = describeSyncError(error);
+      // Keep the batch so it is retried instead of lost
+      this.requeue(batch);
+      return classifySaveError(error);
     } finally {
       this.isProcessing = false;
+      this.notifyPendingChange();
     }
   }
 
-  private queueOperation(operation: () => void) {
-    this.pendingOperations.push(operation);
-    this.debouncedSave();
+  private requeue(batch: TableOperation[]) {
+    this.inFlight = [];
+    this.pendingOperations = [...batch, ...this.pendingOperations];
   }
 
-  async addObject(object: StoredObject): Promise<boolean> {
+  // Gives an operation a fresh stamp. A re-added object gets a new clock, so
+  // it outranks the tombstone it left, but keeps who created it and when.
+  private stampOperation(operation: TableOperation): TableOperation {
+    const stamp = this.clock.now();
+    const by = getClientId();
+    if (operation.type !== 'add') {
+      return { ...operation, stamp, by };
+    }
+    const object = stampObject(operation.object, stamp, by);
+    return {
+      ...operation,
+      object: {
+        ...object,
+        createdAt: operation.object.createdAt ?? object.createdAt,
+        createdBy: operation.object.createdBy ?? object.createdBy,
+      },
+      stamp,
+      by,
+    };
+  }
+
+  private queueOperation(operation: TableOperation) {
+    const stamped = this.stampOperation(operation);
+    // A drag queues a move per pointer event; only the last one needs saving
+    const last = this.pendingOperations[this.pendingOperations.length - 1];
+    if (stamped.type === 'move' && last?.type === 'move' && last.id === stamped.id) {
+      this.pendingOperations[this.pendingOperations.length - 1] = stamped;
+    } else {
+      this.pendingOperations.push(stamped);
+    }
+    this.shareOperations([stamped]);
+    this.notifyPendingChange();
+    this.scheduler.schedule();
+  }
+
+  // Passes operations we just queued on to other clients and to our other tabs
+  private shareOperations(operations: TableOperation[], urgent = false) {
+    this.relay?.send(operations);
+    this.tabs?.post({ type: 'operations', operations, urgent });
+  }
+
+  // Operations other clients broadcast before they reach the log. Applying
+  // them again once they are logged is harmless: merges are idempotent.
+  // Returns the operations that passed the check, whether or not there was a cache to apply them to
+  private applyRemoteOperations(operations: TableOperation[]): TableOperation[] {
+    const { valid, rejected } = checkOperations(operations);
+    warnRejected('another client', rejected);
     if (!this.cache) {
-      await this.loadObjects();
+      return valid;
     }
+    valid.forEach(operation => this.clock.observe(operation.stamp));
+    this.cache = sanitizeStorageData(applyOperations(this.cache, valid)).data;
+    this.publish();
+    return valid;
+  }
 
-    this.queueOperation(() => {
-      if (this.cache) {
-        // Remove any existing object with the same ID (replace)
-        this.cache.objects = this.cache.objects.filter(obj => obj.id !== object.id);
-        this.cache.objects.push(object);
+  private get isFollowing(): boolean {
+    return this.tabs?.isFollowing() ?? false;
+  }
+
+  private handleTabMessage(message: TabMessage) {
+    switch (message.type) {
+      case 'operations': {
+        const operations = this.applyRemoteOperations(message.operations);
+        if (this.tabs.isLeader()) {
+          this.adoptOperations(operations, message.urgent);
+        }
+        break;
       }
-    });
+      case 'accepted':
+        if (this.isFollowing) {
+          this.releaseAccepted(new Set(message.stamps));
+        }
+        break;
+      case 'logged':
+        if (this.isFollowing) {
+          this.followLog(message.entries);
+        }
+        break;
+      case 'status':
+        if (this.isFollowing) {
+          this.leaderStatus = message.status;
+          this.publish();
+        }
+        break;
+      case 'reload':
+        this.reloadAfterReplace();
+        break;
+      case 'hello':
+        if (this.tabs.isLeader()) {
+          this.tabs.post({ type: 'status', status: this.getSyncStatus() });
+        }
+        break;
+      case 'active':
+        if (this.tabs.isLeader()) {
+          const wasHidden = this.isHidden();
+          this.activeTabAt = Date.now();
+          if (wasHidden) {
+            this.poller.pollNow();
+          }
+        }
+        break;
+    }
+  }
 
-    return true; // Return immediately for better UX
+  // Queues edits another tab made, to save them along with ours
+  private adoptOperations(operations: TableOperation[], urgent = false) {
+    const queued = new Set(this.queuedOperations.map(operation => operation.stamp));
+    const fresh = operations.filter(operation => !queued.has(operation.stamp));
+    this.tabs.post({ type: 'accepted', stamps: operations.map(operation => operation.stamp) });
+    if (fresh.length === 0) {
+      return;
+    }
+    this.pendingOperations.push(...fresh);
+    this.notifyPendingChange();
+    if (urgent) {
+      this.scheduler.flush();
+    } else {
+      this.scheduler.schedule();
+    }
   }
 
-  async updateObject(objectId: string, x: number, y: number): Promise<boolean> {
-    if (!this.cache) {
+  // The leader has our edits now; keep them in view until they come back logged
+  private releaseAccepted(stamps: Set<string>) {
+    const accepted = this.pendingOperations.filter(operation => stamps.has(operation.stamp));
+    if (accepted.length === 0) {
+      return;
+    }
+    if (this.cache) {
+      this.cache = sanitizeStorageData(applyOperations(this.cache, accepted)).data;
+    }
+    this.pendingOperations = this.pendingOperations.filter(operation => !stamps.has(operation.stamp));
+    this.notifyPendingChange();
+  }
+
+  private followLog(entries: LoggedOperation[]) {
+    if (!this.cache || entries.length === 0) {
+      return;
+    }
+    if (entries[0].seq > this.lastSeq + 1) {
+      // We missed some entries; a fresh copy is simpler than asking for them
+      this.reloadAfterReplace();
+      return;
+    }
+    this.applyLogged(entries);
+    this.markSynced();
+    this.publish();
+  }
+
+  private async reloadAfterReplace() {
+    try {
       await this.loadObjects();
+      this.undoHistory.clear();
+      this.publish();
+    } catch {
+      // loadObjects has recorded the error; polling tries again
     }
+  }
 
-    this.queueOperation(() => {
-      if (this.cache) {
-        this.cache.objects = this.cache.objects.map(obj =>
-          obj.id === objectId ? { ...obj, x, y } : obj
-        );
-      }
-    });
+  // Sends the leader whatever we queued that it hasn't accepted yet
+  private forwardQueue() {
+    if (this.pendingOperations.length > 0) {
+      this.tabs?.post({ type: 'operations', operations: this.pendingOperations });
+    }
+  }
+
+  // This tab became the leader: save what's queued, including what the previous leader left behind
+  private async takeLead() {
+    this.leaderStatus = null;
+    this.queueRestored = false;
+    await this.restoreQueue();
+    if (this.pendingOperations.length > 0) {
+      this.scheduler.schedule();
+    }
+    this.publish();
+  }
+
+  // Opens the relay connection, if one is configured, joins the other tabs
+  // showing this table and starts polling for changes
+  connectLive() {
+    this.relay?.connect();
+    this.tabs?.connect();
+    this.forwardQueue();
+    this.poller.start();
+  }
+
+  disconnectLive() {
+    this.poller.stop();
+    this.relay?.disconnect();
+    this.tabs?.disconnect();
+    this.leaderStatus = null;
+    // Whatever the leader hasn't accepted yet is ours to save again
+    if (this.pendingOperations.length > 0) {
+      this.scheduler.schedule();
+    }
+  }
+
+  // Whether other clients' edits currently arrive over the relay
+  isLive(): boolean {
+    return this.relay?.isConnected() ?? false;
+  }
+
+  private emitConflict(conflict: StorageConflict) {
+    console.warn('Storage conflict:', conflict);
+    this.lastConflict = conflict;
+    this.conflictListeners.forEach(listener => listener(conflict));
+    this.publish();
+  }
 
+  // Subscribe to conflicts that could not be rebased; returns an unsubscribe function
+  onConflict(listener: ConflictListener): () => void {
+    this.conflictListeners.add(listener);
+    return () => {
+      this.conflictListeners.delete(listener);
+    };
+  }
+
+  private findVisible(objectId: string): StoredObject | undefined {
+    return this.getVisibleObjects().find(object => object.id === objectId);
+  }
+
+  // Queues one of the user's own edits and makes it undoable
+  private queueUserOperation(operation: TableOperation, revert: TableOperation | null) {
+    this.queueOperation(operation);
+    if (revert) {
+      this.undoHistory.record(operation, revert);
+    }
+    this.publish();
+  }
+
+  async addObject(object: StoredObject): Promise<boolean> {
+    this.queueUserOperation({ type: 'add', object }, { type: 'remove', id: object.id });
+    return true; // Return immediately for better UX
+  }
+
+  async updateObject(objectId: string, x: number, y: number): Promise<boolean> {
+    const previous = this.findVisible(objectId);
+    this.queueUserOperation(
+      { type: 'move', id: objectId, x, y },
+      previous ? { type: 'move', id: objectId, x: previous.x, y: previous.y } : null
+    );
     return true; // Return immediately for better UX
   }
 
   async removeObject(objectId: string): Promise<boolean> {
-    if (!this.cache) {
-      await this.loadObjects();
+    const previous = this.findVisible(objectId);
+    this.queueUserOperation(
+      { type: 'remove', id: objectId },
+      previous ? { type: 'add', object: previous } : null
+    );
+    return true; // Return immediately for better UX
+  }
+
+  // Takes back the user's latest edit that nobody has changed since; false when there is none
+  undo(): boolean {
+    return this.queueUndoStep(this.undoHistory.undo(this.getVisibleObjects()));
+  }
+
+  redo(): boolean {
+    return this.queueUndoStep(this.undoHistory.redo(this.getVisibleObjects()));
+  }
+
+  private queueUndoStep(operation: TableOperation | null): boolean {
+    if (operation) {
+      this.queueOperation(operation);
     }
+    this.publish();
+    return operation !== null;
+  }
 
-    this.queueOperation(() => {
-      if (this.cache) {
-        this.cache.objects = this.cache.objects.filter(obj => obj.id !== objectId);
+  // One round of the polling loop; resolves true when it found changes from elsewhere
+  private async poll(): Promise<boolean> {
+    if (this.isFollowing) {
+      // The leader polls for us; tell it someone is looking, and make sure it has our edits
+      if (!document.hidden) {
+        this.tabs.post({ type: 'active' });
       }
-    });
+      this.forwardQueue();
+      return false;
+    }
 
-    return true; // Return immediately for better UX
-  }
+    if (this.remoteState === 'locked') {
+      // Nothing to do until someone enters the passphrase
+      return false;
+    }
 
-  async syncObjects(localObjects: StoredObject[]): Promise<StoredObject[]> {
     try {
-      // Load latest data from server
-      const serverObjects = await this.loadObjects();
-      
-      // Simple merge strategy: server wins for conflicts, but preserve local additions
-      const mergedObjects = [...serverObjects];
-      
-      // Add any local objects that don't exist on server (by ID)
-      localObjects.forEach(localObj => {
-        if (!serverObjects.find(serverObj => serverObj.id === localObj.id)) {
-          mergedObjects.push(localObj);
-        }
-      });
+      if (!this.cache) {
+        await this.loadObjects();
+        this.publish();
+        return true;
+      }
+      // Polling is best effort, so skip it when that would eat into the budget saves need
+      if (!this.budget.tryTake(1, SAVE_REQUEST_COST)) {
+        return false;
+      }
+
+      // A cheap check first, where the backend has one, so an unchanged table isn't read at all
+      const tag = this.backend.fetchChangeTag ? await this.backend.fetchChangeTag() : null;
+      if (tag !== null && tag === this.changeTag) {
+        this.markSynced();
+        this.publish();
+        return false;
+      }
+      if (tag !== null && !this.budget.tryTake(1, SAVE_REQUEST_COST)) {
+        return false;
+      }
 
-      return mergedObjects;
+      const seq = this.lastSeq;
+      await this.pullOperations();
+      this.changeTag = tag;
+      const changed = this.lastSeq !== seq;
+      if (changed) {
+        this.publish();
+      }
+
+      // Anything still queued after an earlier failure gets another go
+      if (this.pendingOperations.length > 0 && !this.scheduler.isBackingOff()) {
+        this.scheduler.schedule();
+      }
+      return changed;
     } catch (error) {
       console.error('Error syncing objects:', error);
-      return localObjects; // Fallback to local data
+      this.lastError = describeSyncError(error);
+      this.publish();
+      return false;
     }
   }
 
+  // Whether anyone can see this table: this tab, or a follower that checked in lately
+  private isHidden(): boolean {
+    return document.hidden && Date.now() - this.activeTabAt > ACTIVE_TAB_TIMEOUT_MS;
+  }
+
   async resetObjects(): Promise<boolean> {
+    if (!this.cache) {
+      console.error('Refusing to reset a table that has not been loaded');
+      return false;
+    }
+
     try {
-      // Overwrite the bin with an empty objects array and reset version
-      const emptyData = {
-        objects: [],
-        lastUpdated: new Date().toISOString(),
-        version: 1
-      };
-      const response = await fetch(`${this.BASE_URL}/${this.BIN_ID}`, {
-        method: 'PUT',
-        headers: {
-          'X-Master-Key': this.API_KEY,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(emptyData),
-      });
-      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-      this.cache = emptyData;
-      this.lastVersion = 1;
+      // Overwrite the stored document with an empty objects array and reset version
+      this.cache = await this.backend.reset();
+      this.lastSeq = this.cache.seq ?? 0;
+      this.undoHistory.clear();
+      this.publish();
+      this.tabs?.post({ type: 'reload' });
       return true;
     } catch (error) {
       console.error('Error resetting objects:', error);
@@ -216,16 +898,184 @@ class StorageService {
     }
   }
 
+  // The stored document, upgraded to the schema this client uses
+  private async loadStored(): Promise<StorageData | null> {
+    const stored = await this.backend.load();
+    return stored && migrateStorageData(stored);
+  }
+
+  // Earlier versions of the table, newest first. Read fresh: the cache only follows the log.
+  async fetchRevisions(): Promise<Revision[]> {
+    const data = await this.loadStored();
+    return [...(data?.revisions ?? [])].reverse();
+  }
+
+  // Read fresh, like revisions, and checked the same way a writer would
+  async fetchQuarantine(): Promise<QuarantinedObject[]> {
+    return sanitizeStorageData(await this.loadStored()).data.quarantine;
+  }
+
+  /**
+   * Deletes quarantined objects for good. The stored document is written back
+   * checked, so anything still invalid in it is quarantined at the same time.
+   */
+  async discardQuarantined(keys: string[]): Promise<boolean> {
+    const discard = new Set(keys);
+    for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+      const stored = await this.backend.load();
+      if (!stored) {
+        return false;
+      }
+      const { data } = sanitizeStorageData(migrateStorageData(stored));
+      const quarantine = data.quarantine.filter(entry => !discard.has(entry.key));
+      try {
+        await this.backend.save(
+          { ...data, quarantine, version: data.version + 1, lastUpdated: new Date().toISOString() },
+          { expectedVersion: stored.version }
+        );
+      } catch (error) {
+        if (error instanceof StorageConflictError) {
+          continue;
+        }
+        throw error;
+      }
+      if (this.cache) {
+        this.cache = { ...this.cache, quarantine };
+        this.publish();
+      }
+      return true;
+    }
+    return false;
+  }
+
+  // The recorded operations a replay steps through
+  async fetchTimeline(): Promise<Timeline> {
+    return timelineOf(await this.loadStored());
+  }
+
+  /**
+   * Brings the table back to how it looked in `revision`. It is kept as a
+   * revision of its own, so a restore can be undone the same way.
+   */
+  async restoreRevision(revision: Revision): Promise<boolean> {
+    return await this.applyChanges(diffTables(this.getVisibleObjects(), revision.objects), {
+      restores: revision.number,
+    });
+  }
+
+  // What importing `objects` would change; a merge keeps objects the file doesn't have
+  previewImport(objects: StoredObject[], mode: ImportMode): TableChanges {
+    return diffTables(this.getVisibleObjects(), objects, { keepMissing: mode === 'merge' });
+  }
+
+  async importObjects(objects: StoredObject[], mode: ImportMode): Promise<boolean> {
+    return await this.applyChanges(this.previewImport(objects, mode));
+  }
+
+  // The table as it looks here, for exporting
+  exportData(): StorageData {
+    return {
+      objects: this.getVisibleObjects(),
+      lastUpdated: this.cache?.lastUpdated ?? new Date().toISOString(),
+      version: this.cache?.version ?? 1,
+    };
+  }
+
+  /**
+   * Writes a batch of changes as ordinary operations, so everyone converges
+   * on them like any other edit, and saves them right away.
+   */
+  private async applyChanges(changes: TableChanges, marks: Pick<TableOperation, 'restores'> = {}): Promise<boolean> {
+    if (!this.cache) {
+      console.error('Refusing to change a table that has not been loaded');
+      return false;
+    }
+
+    const operations = changeOperations(changes).map(operation => ({ ...this.stampOperation(operation), ...marks }));
+    if (operations.length === 0) {
+      return true; // Already looks like that
+    }
+
+    this.pendingOperations.push(...operations);
+    this.shareOperations(operations, true);
+    this.notifyPendingChange();
+    // Undo steps from before would fight the new state
+    this.undoHistory.clear();
+    this.publish();
+    if (this.isFollowing) {
+      // The leader tab saves them as soon as it has them
+      return true;
+    }
+    return await this.scheduler.flush();
+  }
+
   // Force immediate save (for critical operations like delete)
   async forceSave(): Promise<boolean> {
-    clearTimeout((this.debouncedSave as any).timeout);
-    return await this.processPendingOperations();
+    return await this.scheduler.flush();
   }
 
   // Get current cache state
   getCurrentObjects(): StoredObject[] {
     return this.cache?.objects || [];
   }
+
+  // Cache state with our not yet saved operations applied on top
+  getVisibleObjects(): StoredObject[] {
+    // Before the first successful load we can only show our own queued edits
+    const base = this.cache ?? { objects: [], tombstones: {} };
+    return applyOperations(base, this.queuedOperations).objects;
+  }
+}
+
+const provider = createStorageProvider();
+const services = new Map<string, StorageService>();
+
+// One service per table, shared by everything showing that table
+export function getStorageService(tableId: string): StorageService {
+  let service = services.get(tableId);
+  if (!service) {
+    const documentId = `${provider.kind}:${tableId}`;
+    const token = getTableToken(tableId);
+    const cipher = new TableCipher();
+    service = new StorageService(
+      new EncryptedBackend(provider.backendFor(tableId, token), cipher),
+      createRelayTransport(tableId, getClientId(), token, cipher),
+      new PersistentOperationQueue(documentId),
+      createTabChannel(documentId),
+      cipher
+    );
+    services.set(tableId, service);
+  }
+  return service;
+}
+
+// Creates an empty table and remembers its access token; with a passphrase the table is end-to-end encrypted
+export async function createTable(passphrase?: string): Promise<CreatedTable> {
+  const created = await provider.createTable();
+  if (created.token) {
+    rememberTableToken(created.tableId, created.token);
+  }
+  if (passphrase) {
+    await getStorageService(created.tableId).protect(passphrase);
+  }
+  recordCreated(created.tableId);
+  return created;
+}
+
+export interface TableSummary {
+  // Null for encrypted tables, whose objects can't be counted without the passphrase
+  objectCount: number | null;
+  lastUpdated: string | null;
+  encrypted: boolean;
 }
 
-export const storageService = new StorageService();
\ No newline at end of file
+// Reads a table's document just to describe it, without setting up syncing
+export async function fetchTableSummary(tableId: string): Promise<TableSummary> {
+  const data = await provider.backendFor(tableId, getTableToken(tableId)).load();
+  const encrypted = isEncryptedDocument(data);
+  return {
+    objectCount: encrypted ? null : data?.objects?.length ?? 0,
+    lastUpdated: data?.lastUpdated ?? null,
+    encrypted,
+  };
+}
\ No newline at end of file
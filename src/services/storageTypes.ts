@@ -0,0 +1,71 @@
+// src/services/storageTypes.ts
+import type { LoggedOperation } from './operations';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import type { LogBase } from './replay';
+import type { Revision } from './revisions';
+import type { QuarantinedObject } from './storageSchema';
+import type { DetachedWrites, ObjectClock, Tombstone } from './tableCrdt';
+import type { EncryptedDocument } from './tableEncryption';
+
+export interface StoredObject {
+  id: string;
+  x: number;
+  y: number;
+  type: string;
+  emoji: string;
+  color: string;
+  isText?: boolean;
+  // Who created and last changed the object, and when (client ids, ISO times)
+  createdAt?: string;
+  createdBy?: string;
+  updatedAt?: string;
+  updatedBy?: string;
+  // Write stamps of the position and content registers, absent on objects saved before they existed
+  clock?: ObjectClock;
+}
+
+export interface StorageData {
+  objects: StoredObject[];
+  lastUpdated: string;
+  version: number;
+  // Shape of the document (see migrations.ts); absent on documents saved before it existed
+  schemaVersion?: number;
+  // Sequence number of the last operation folded into `objects`
+  seq?: number;
+  // Changes whenever the log starts over from 0, so a client can tell a reset
+  // from a log that hasn't grown yet; absent until the table is first reset
+  logEpoch?: string;
+  // Most recent operations, oldest first, kept so clients can catch up cheaply
+  log?: LoggedOperation[];
+  // The table as it was before the oldest operation in `log`, for replays
+  logBase?: LogBase;
+  // Removed objects by id, kept until every active client has caught up
+  tombstones?: Record<string, Tombstone>;
+  // Writes to objects the table doesn't show, kept until the object is added (see tableCrdt.ts)
+  detached?: Record<string, DetachedWrites>;
+  // How far each writing client has read the log, for tombstone collection
+  clients?: Record<string, ClientProgress>;
+  // Earlier versions of the table, oldest first
+  revisions?: Revision[];
+  // Stored objects that failed validation, set aside to be inspected or deleted
+  quarantine?: QuarantinedObject[];
+}
+
+// What a backend holds: the table's document, or an encrypted table's sealed one
+export type StoredDocument = StorageData | EncryptedDocument;
+
+export interface ClientProgress {
+  seq: number;
+  lastSeen: string;
+}
+
+export const createEmptyStorageData = (): StorageData => ({
+  objects: [],
+  lastUpdated: new Date().toISOString(),
+  version: 1,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  seq: 0,
+  log: [],
+  tombstones: {},
+  clients: {}
+});
@@ -0,0 +1,115 @@
+// src/services/tabChannel.ts
+import type { LoggedOperation, TableOperation } from './operations';
+import type { SyncStatus } from './storageService';
+
+export type TabMessage =
+  // Edits a tab just made; the leader takes them into its save queue, and
+  // saves them at once when they are `urgent` (imports and restores)
+  | { type: 'operations'; operations: TableOperation[]; urgent?: boolean }
+  // The leader has queued these operations (by stamp), so their tab can let go of them
+  | { type: 'accepted'; stamps: string[] }
+  // Entries the leader read from or wrote to the log
+  | { type: 'logged'; entries: LoggedOperation[] }
+  | { type: 'status'; status: SyncStatus }
+  // The document was replaced, e.g. by a reset; everyone reloads it
+  | { type: 'reload' }
+  // A tab joined and wants the leader's status
+  | { type: 'hello' }
+  // A follower tab is in view, so the leader keeps polling at a visible pace
+  | { type: 'active' };
+
+type MessageListener = (message: TabMessage) => void;
+type LeadershipListener = (isLeader: boolean) => void;
+
+/**
+ * Links the tabs showing the same table. Edits are shared over a
+ * BroadcastChannel the moment they are made, and one tab, elected with a Web
+ * Lock, leads: it saves everyone's edits and polls storage, and the others
+ * follow what it reports. When the leader goes away the lock passes to
+ * another tab. Without Web Locks tabs only share edits and each saves its own.
+ */
+export class TabChannel {
+  private channel: BroadcastChannel | null = null;
+  private leading = false;
+  private abortElection: AbortController | null = null;
+  private releaseLeadership: (() => void) | null = null;
+  private messageListeners = new Set<MessageListener>();
+  private leadershipListeners = new Set<LeadershipListener>();
+
+  constructor(private readonly name: string) {}
+
+  private get canElect() {
+    return typeof navigator !== 'undefined' && 'locks' in navigator;
+  }
+
+  connect() {
+    if (this.channel) return;
+    this.channel = new BroadcastChannel(this.name);
+    this.channel.onmessage = (event: MessageEvent<TabMessage>) => {
+      this.messageListeners.forEach(listener => listener(event.data));
+    };
+
+    if (this.canElect) {
+      const election = new AbortController();
+      this.abortElection = election;
+      // The lock is held until the promise resolves, i.e. until we disconnect
+      navigator.locks
+        .request(`${this.name}:leader`, { signal: election.signal }, () => new Promise<void>(resolve => {
+          this.releaseLeadership = resolve;
+          this.setLeading(true);
+        }))
+        .catch(() => {
+          // Aborted because we disconnected before winning
+        });
+    }
+    this.post({ type: 'hello' });
+  }
+
+  disconnect() {
+    this.abortElection?.abort();
+    this.abortElection = null;
+    this.releaseLeadership?.();
+    this.releaseLeadership = null;
+    this.channel?.close();
+    this.channel = null;
+    this.setLeading(false);
+  }
+
+  private setLeading(leading: boolean) {
+    if (leading === this.leading) return;
+    this.leading = leading;
+    this.leadershipListeners.forEach(listener => listener(leading));
+  }
+
+  // Whether this tab saves and polls on behalf of the others
+  isLeader(): boolean {
+    return this.leading;
+  }
+
+  // Whether another tab saves and polls for this one
+  isFollowing(): boolean {
+    return this.channel !== null && this.canElect && !this.leading;
+  }
+
+  post(message: TabMessage) {
+    this.channel?.postMessage(message);
+  }
+
+  onMessage(listener: MessageListener): () => void {
+    this.messageListeners.add(listener);
+    return () => {
+      this.messageListeners.delete(listener);
+    };
+  }
+
+  onLeadershipChange(listener: LeadershipListener): () => void {
+    this.leadershipListeners.add(listener);
+    return () => {
+      this.leadershipListeners.delete(listener);
+    };
+  }
+}
+
+export function createTabChannel(documentId: string): TabChannel | null {
+  return typeof BroadcastChannel !== 'undefined' ? new TabChannel(`the-table:${documentId}`) : null;
+}
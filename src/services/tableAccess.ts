@@ -0,0 +1,39 @@
+// src/services/tableAccess.ts
+//
+// Access tokens for tables, remembered per browser. Share links carry the
+// token in the URL fragment so it never reaches a server's logs.
+import { DEFAULT_TABLE_ID } from './backends';
+
+const TOKENS_KEY = 'the-table:tokens';
+
+const readTokens = (): Record<string, string> => {
+  try {
+    return JSON.parse(window.localStorage.getItem(TOKENS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export function getTableToken(tableId: string): string | undefined {
+  const token = readTokens()[tableId];
+  // A token baked in at build time still opens the default table
+  return token ?? (tableId === DEFAULT_TABLE_ID ? import.meta.env.VITE_TABLE_TOKEN : undefined);
+}
+
+export function rememberTableToken(tableId: string, token: string) {
+  window.localStorage.setItem(TOKENS_KEY, JSON.stringify({ ...readTokens(), [tableId]: token }));
+}
+
+// Picks a token out of a `#token=...` fragment, if there is one
+export function tokenFromHash(hash: string): string | undefined {
+  return new URLSearchParams(hash.replace(/^#/, '')).get('token') ?? undefined;
+}
+
+export function shareLink(tableId: string): string {
+  const url = new URL(`/t/${encodeURIComponent(tableId)}`, window.location.origin);
+  const token = getTableToken(tableId);
+  if (token) {
+    url.hash = new URLSearchParams({ token }).toString();
+  }
+  return url.toString();
+}
@@ -0,0 +1,242 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { applyOperations, type TableOperation } from './operations';
+import type { StoredObject } from './storageTypes';
+import { HybridClock, stampObject, type TableState } from './tableCrdt';
+
+// Small seeded generator, so a failing history can be replayed from its seed
+const random = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+type Random = () => number;
+
+const pick = <T>(next: Random, items: T[]): T => items[Math.floor(next() * items.length)];
+
+const stamp = (time: number, replica: string) => `${time.toString(36).padStart(9, '0')}-0000-${replica}`;
+
+const object = (id: string, x: number, y = 0): StoredObject => ({ id, x, y, type: 'cup', emoji: '☕', color: 'bg-amber-600' });
+
+// What two converged replicas must agree on; an absent isText means false
+const snapshot = (state: TableState) => ({
+  objects: state.objects.map(item => ({ ...item, isText: Boolean(item.isText) })),
+  tombstones: state.tombstones ?? {},
+  detached: state.detached ?? {},
+});
+
+interface GeneratedOperation {
+  operation: TableOperation;
+  // Indexes of the operations its replica had seen when it made this one
+  dependsOn: number[];
+}
+
+/**
+ * Replicas edit their own view of the table and now and then receive each
+ * other's operations, the way the relay and the log deliver them. Every
+ * operation is made against what its replica could see, so the history is
+ * causally valid.
+ */
+const generateHistory = (next: Random, steps: number): GeneratedOperation[] => {
+  const replicas = ['a', 'b', 'c'].map(id => ({
+    id,
+    clock: new HybridClock(id),
+    seen: [] as number[],
+    state: { objects: [], tombstones: {} } as TableState,
+    removed: [] as StoredObject[],
+  }));
+  const history: GeneratedOperation[] = [];
+  let ids = 0;
+
+  for (let step = 0; step < steps; step++) {
+    const replica = pick(next, replicas);
+
+    if (next() < 0.3) {
+      // Catch up on some operations made elsewhere, in whatever order they arrive
+      const unseen = history.map((_, index) => index).filter(index => !replica.seen.includes(index));
+      const delivered = unseen.filter(() => next() < 0.5).sort(() => next() - 0.5);
+      delivered.forEach(index => {
+        replica.clock.observe(history[index].operation.stamp);
+        replica.state = applyOperations(replica.state, [history[index].operation]);
+      });
+      replica.seen.push(...delivered);
+      continue;
+    }
+
+    const visible = replica.state.objects;
+    const target = visible.length > 0 ? pick(next, visible) : null;
+    const kind = target ? pick(next, ['add', 'move', 'move', 'edit', 'remove', 'readd']) : 'add';
+    const now = replica.clock.now();
+    let operation: TableOperation;
+
+    if (kind === 'add' || (kind === 'readd' && replica.removed.length === 0)) {
+      operation = { type: 'add', object: stampObject(object(`o${ids++}`, Math.floor(next() * 100)), now, replica.id) };
+    } else if (kind === 'readd') {
+      // Undoing a removal brings the object back with a fresh clock
+      operation = { type: 'add', object: stampObject(pick(next, replica.removed), now, replica.id) };
+    } else if (kind === 'move') {
+      operation = { type: 'move', id: target.id, x: Math.floor(next() * 100), y: Math.floor(next() * 100) };
+    } else if (kind === 'edit') {
+      operation = {
+        type: 'edit',
+        id: target.id,
+        changes: { type: target.type, emoji: pick(next, ['☕', '📚', '🌱']), color: target.color, isText: next() < 0.2 },
+      };
+    } else {
+      replica.removed.push(target);
+      operation = { type: 'remove', id: target.id };
+    }
+    operation = { ...operation, stamp: now, by: replica.id };
+
+    history.push({ operation, dependsOn: [...replica.seen] });
+    replica.seen.push(history.length - 1);
+    replica.state = applyOperations(replica.state, [operation]);
+  }
+
+  return history;
+};
+
+// A random order in which every operation comes after those its replica had seen
+const causalOrder = (next: Random, history: GeneratedOperation[]): TableOperation[] => {
+  const done = new Set<number>();
+  const order: TableOperation[] = [];
+  while (order.length < history.length) {
+    const ready = history
+      .map((_, index) => index)
+      .filter(index => !done.has(index) && history[index].dependsOn.every(dependency => done.has(dependency)));
+    const index = pick(next, ready);
+    done.add(index);
+    order.push(history[index].operation);
+  }
+  return order;
+};
+
+const anyOrder = (next: Random, history: GeneratedOperation[]): TableOperation[] =>
+  history.map(({ operation }) => operation).sort(() => next() - 0.5);
+
+describe('table CRDT', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('converges when a move races a removal and a re-add', () => {
+    const base: TableState = { objects: [stampObject(object('o1', 0), stamp(1, 'a'), 'a')], tombstones: {} };
+    const remove: TableOperation = { type: 'remove', id: 'o1', stamp: stamp(2, 'a'), by: 'a' };
+    const readd: TableOperation = {
+      type: 'add',
+      object: stampObject(object('o1', 10), stamp(3, 'b'), 'b'),
+      stamp: stamp(3, 'b'),
+      by: 'b',
+    };
+    const move: TableOperation = { type: 'move', id: 'o1', x: 99, y: 99, stamp: stamp(4, 'c'), by: 'c' };
+
+    const orders = [
+      [remove, readd, move],
+      [remove, move, readd],
+      [readd, remove, move],
+      [readd, move, remove],
+      [move, remove, readd],
+      [move, readd, remove],
+    ];
+    for (const order of orders) {
+      const result = applyOperations(base, order);
+      expect(result.objects.map(item => [item.x, item.y])).toEqual([[99, 99]]);
+      expect(result.detached).toEqual({});
+    }
+  });
+
+  it('keeps a move that reaches an object before its add', () => {
+    const add: TableOperation = {
+      type: 'add',
+      object: stampObject(object('o1', 5), stamp(1, 'a'), 'a'),
+      stamp: stamp(1, 'a'),
+      by: 'a',
+    };
+    const move: TableOperation = { type: 'move', id: 'o1', x: 40, y: 50, stamp: stamp(2, 'b'), by: 'b' };
+
+    const early = applyOperations<TableState>({ objects: [], tombstones: {} }, [move]);
+    expect(early.objects).toEqual([]);
+    expect(early.detached?.o1?.position?.values).toEqual({ x: 40, y: 50 });
+
+    const result = applyOperations(early, [add]);
+    expect(result.objects.map(item => [item.x, item.y, item.updatedBy])).toEqual([[40, 50, 'b']]);
+    expect(result.detached).toEqual({});
+  });
+
+  it('drops writes a removal has overtaken', () => {
+    const base: TableState = { objects: [stampObject(object('o1', 0), stamp(1, 'a'), 'a')], tombstones: {} };
+    const move: TableOperation = { type: 'move', id: 'o1', x: 7, y: 7, stamp: stamp(2, 'b'), by: 'b' };
+    const remove: TableOperation = { type: 'remove', id: 'o1', stamp: stamp(3, 'a'), by: 'a' };
+
+    expect(snapshot(applyOperations(base, [remove, move]))).toEqual(snapshot(applyOperations(base, [move, remove])));
+    expect(applyOperations(base, [remove, move]).detached).toEqual({});
+  });
+
+  it('converges on every causally valid order of random histories', () => {
+    for (let seed = 1; seed <= 200; seed++) {
+      const next = random(seed);
+      let time = 1_700_000_000_000;
+      // Several replicas often share a wall clock millisecond
+      vi.spyOn(Date, 'now').mockImplementation(() => (time += Math.floor(next() * 3)));
+
+      const history = generateHistory(next, 40);
+      const expected = snapshot(applyOperations({ objects: [], tombstones: {} }, history.map(({ operation }) => operation)));
+      for (let round = 0; round < 5; round++) {
+        const result = applyOperations({ objects: [], tombstones: {} }, causalOrder(next, history));
+        expect(snapshot(result), `seed ${seed}`).toEqual(expected);
+      }
+      vi.restoreAllMocks();
+    }
+  });
+
+  it('converges even when operations arrive out of causal order', () => {
+    for (let seed = 1; seed <= 200; seed++) {
+      const next = random(seed);
+      let time = 1_700_000_000_000;
+      vi.spyOn(Date, 'now').mockImplementation(() => (time += Math.floor(next() * 3)));
+
+      const history = generateHistory(next, 40);
+      const expected = snapshot(applyOperations({ objects: [], tombstones: {} }, history.map(({ operation }) => operation)));
+      for (let round = 0; round < 5; round++) {
+        const result = applyOperations({ objects: [], tombstones: {} }, anyOrder(next, history));
+        expect(snapshot(result), `seed ${seed}`).toEqual(expected);
+      }
+      vi.restoreAllMocks();
+    }
+  });
+
+  it('follows stamps from other replicas that are a little ahead', () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+    const clock = new HybridClock('a');
+
+    clock.observe(stamp(1_700_000_030_000, 'b'));
+    expect(clock.now() > stamp(1_700_000_030_000, 'b')).toBe(true);
+  });
+
+  it('outranks a far ahead write it has seen, however skewed the other clock', () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+    const base: TableState = { objects: [stampObject(object('o1', 0), stamp(1, 'a'), 'a')], tombstones: {} };
+    // Replica b's clock runs two minutes fast
+    const skewed: TableOperation = { type: 'move', id: 'o1', x: 10, y: 10, stamp: stamp(1_700_000_120_000, 'b'), by: 'b' };
+    const clock = new HybridClock('a');
+
+    clock.observe(skewed.stamp);
+    clock.observe('not-a-stamp');
+    const later: TableOperation = { type: 'move', id: 'o1', x: 20, y: 20, stamp: clock.now(), by: 'a' };
+
+    for (const order of [[skewed, later], [later, skewed]]) {
+      expect(applyOperations(base, order).objects.map(item => [item.x, item.y])).toEqual([[20, 20]]);
+    }
+  });
+
+  it('gives the same state however the operations are batched', () => {
+    const next = random(7);
+    let time = 1_700_000_000_000;
+    vi.spyOn(Date, 'now').mockImplementation(() => (time += 1));
+    const operations = generateHistory(next, 60).map(({ operation }) => operation);
+
+    const oneByOne = operations.reduce<TableState>((state, operation) => applyOperations(state, [operation]), {
+      objects: [],
+    });
+    expect(snapshot(applyOperations({ objects: [] }, operations))).toEqual(snapshot(oneByOne));
+  });
+});
@@ -0,0 +1,365 @@
+// src/services/tableCrdt.ts
+//
+// The table is a map of objects. Each object's fields form two
+// last-writer-wins registers, position (x, y) and content (what the object
+// looks like), so a move and a concurrent edit both survive while x and y can
+// never come from different writers. Each write carries a hybrid logical clock stamp; removals leave a
+// tombstone so late or replayed updates cannot bring an object back. Writes
+// to an object a replica doesn't have, because its add hasn't arrived yet or
+// a removal the writer didn't know about has, are kept as detached writes
+// until the object turns up. Merging two states is commutative, associative
+// and idempotent, so replicas converge whatever order changes reach them in.
+import type { StoredObject } from './storageTypes';
+
+// `<wall time>-<counter>-<replica>`, zero padded so stamps compare as strings
+export type Stamp = string;
+
+export type ObjectField = 'x' | 'y' | 'type' | 'emoji' | 'color' | 'isText';
+
+export type FieldGroup = 'position' | 'content';
+
+export interface ObjectClock {
+  added: Stamp;
+  position?: Stamp;
+  content?: Stamp;
+  // Who wrote each register; a removed object's registers are kept apart and need their own
+  writers?: Partial<Record<FieldGroup, string>>;
+}
+
+export interface Tombstone {
+  stamp: Stamp;
+  deletedAt: string;
+  deletedBy: string;
+  // Log position of the removal, once it has been logged; used for garbage collection
+  seq?: number;
+}
+
+// A write to one register of an object the replica doesn't currently show
+export interface DetachedWrite {
+  values: Partial<Pick<StoredObject, ObjectField>>;
+  stamp: Stamp;
+  by: string;
+}
+
+export type DetachedWrites = Partial<Record<FieldGroup, DetachedWrite>>;
+
+export interface TableState {
+  objects: StoredObject[];
+  tombstones?: Record<string, Tombstone>;
+  // By object id; only writes newer than the object's tombstone, if it has one
+  detached?: Record<string, DetachedWrites>;
+}
+
+const FIELD_GROUPS: Record<FieldGroup, ObjectField[]> = {
+  position: ['x', 'y'],
+  content: ['type', 'emoji', 'color', 'isText'],
+};
+
+const groupOf = (field: ObjectField): FieldGroup =>
+  FIELD_GROUPS.position.includes(field) ? 'position' : 'content';
+
+export class HybridClock {
+  private wall = 0;
+  private counter = 0;
+
+  constructor(private readonly replicaId: string) {}
+
+  now(): Stamp {
+    const time = Date.now();
+    if (time > this.wall) {
+      this.wall = time;
+      this.counter = 0;
+    } else {
+      this.counter++;
+    }
+    return formatStamp(this.wall, this.counter, this.replicaId);
+  }
+
+  // Moves the clock past a stamp seen from another replica, however far
+  // ahead it is, so what we write next outranks what we have seen. Stamps
+  // too far ahead are turned away before they get here (see storageSchema.ts).
+  observe(stamp?: Stamp) {
+    if (!stamp) {
+      return;
+    }
+    const [wall, counter] = stamp.split('-');
+    const remoteWall = parseInt(wall, 36);
+    const remoteCounter = parseInt(counter, 36);
+    if (Number.isNaN(remoteWall)) {
+      return;
+    }
+    if (remoteWall > this.wall || (remoteWall === this.wall && remoteCounter > this.counter)) {
+      this.wall = remoteWall;
+      this.counter = remoteCounter;
+    }
+  }
+}
+
+const formatStamp = (wall: number, counter: number, replicaId: string): Stamp =>
+  `${wall.toString(36).padStart(9, '0')}-${counter.toString(36).padStart(4, '0')}-${replicaId}`;
+
+// Wall clock time a stamp was taken at, in milliseconds
+export const stampTime = (stamp: Stamp): number => parseInt(stamp.split('-')[0], 36);
+
+const maxStamp = (a: Stamp | undefined, b: Stamp | undefined): Stamp =>
+  (a ?? '') >= (b ?? '') ? (a ?? '') : (b ?? '');
+
+const groupStamp = (object: StoredObject, group: FieldGroup): Stamp =>
+  object.clock?.[group] ?? object.clock?.added ?? '';
+
+const stampDate = (stamp: Stamp) => new Date(stampTime(stamp)).toISOString();
+
+// Gives every field of a freshly created object the same stamp
+export const stampObject = (object: StoredObject, stamp: Stamp, by = 'unknown'): StoredObject => ({
+  ...object,
+  createdAt: stampDate(stamp),
+  createdBy: by,
+  updatedAt: stampDate(stamp),
+  updatedBy: by,
+  clock: { added: stamp, position: stamp, content: stamp, writers: { position: by, content: by } },
+});
+
+// The newest write to any of the object's registers
+const lastWrite = (object: StoredObject): Stamp =>
+  maxStamp(groupStamp(object, 'position'), groupStamp(object, 'content'));
+
+export const isTombstoned = (state: TableState, object: StoredObject): boolean => {
+  const tombstone = state.tombstones?.[object.id];
+  return tombstone !== undefined && tombstone.stamp >= (object.clock?.added ?? '');
+};
+
+const latestTombstone = (a: Tombstone | undefined, b: Tombstone | undefined): Tombstone => {
+  if (!a || !b) {
+    return a ?? b;
+  }
+  if (a.stamp !== b.stamp) {
+    return a.stamp > b.stamp ? a : b;
+  }
+  // Same removal seen through different paths; keep whichever knows its log position
+  return a.seq !== undefined ? a : b;
+};
+
+const mergeObject = (a: StoredObject, b: StoredObject): StoredObject => {
+  const creator = (b.clock?.added ?? '') > (a.clock?.added ?? '') ? b : a;
+  const lastWriter = lastWrite(b) > lastWrite(a) ? b : a;
+  const merged: StoredObject = {
+    ...a,
+    createdAt: creator.createdAt,
+    createdBy: creator.createdBy,
+    updatedAt: lastWriter.updatedAt,
+    updatedBy: lastWriter.updatedBy,
+    clock: { added: creator.clock?.added ?? '' },
+  };
+
+  for (const group of Object.keys(FIELD_GROUPS) as FieldGroup[]) {
+    const stampA = groupStamp(a, group);
+    const stampB = groupStamp(b, group);
+    const values = (object: StoredObject) => JSON.stringify(FIELD_GROUPS[group].map(field => object[field] ?? null));
+    // Equal stamps only differ for unstamped legacy data; compare values to stay deterministic
+    const winner = stampB > stampA || (stampB === stampA && values(b) > values(a)) ? b : a;
+    for (const field of FIELD_GROUPS[group]) {
+      (merged as unknown as Record<string, unknown>)[field] = winner[field];
+    }
+    if (maxStamp(stampA, stampB)) {
+      merged.clock[group] = maxStamp(stampA, stampB);
+    }
+    if (winner.clock?.writers?.[group]) {
+      merged.clock.writers = { ...merged.clock.writers, [group]: winner.clock.writers[group] };
+    }
+  }
+
+  return merged;
+};
+
+const compareObjects = (a: StoredObject, b: StoredObject) => {
+  const addedA = a.clock?.added ?? '';
+  const addedB = b.clock?.added ?? '';
+  if (addedA !== addedB) {
+    return addedA < addedB ? -1 : 1;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+};
+
+const newerWrite = (a: DetachedWrite | undefined, b: DetachedWrite | undefined): DetachedWrite | undefined => {
+  if (!a || !b) {
+    return a ?? b;
+  }
+  if (a.stamp !== b.stamp) {
+    return a.stamp > b.stamp ? a : b;
+  }
+  return JSON.stringify(b.values) > JSON.stringify(a.values) ? b : a;
+};
+
+const mergeWrites = (a: DetachedWrites = {}, b: DetachedWrites = {}): DetachedWrites => {
+  const merged: DetachedWrites = {};
+  for (const group of Object.keys(FIELD_GROUPS) as FieldGroup[]) {
+    const write = newerWrite(a[group], b[group]);
+    if (write) {
+      merged[group] = write;
+    }
+  }
+  return merged;
+};
+
+// Writes `write` into the object's register if it is newer than what the register holds
+const applyWrite = (object: StoredObject, group: FieldGroup, write: DetachedWrite): StoredObject => {
+  if (write.stamp <= groupStamp(object, group)) {
+    return object;
+  }
+  const next: StoredObject = { ...object, clock: { added: object.clock?.added ?? '', ...object.clock } };
+  for (const field of FIELD_GROUPS[group]) {
+    if (field in write.values) {
+      (next as unknown as Record<string, unknown>)[field] = write.values[field];
+    }
+  }
+  next.clock[group] = write.stamp;
+  next.clock.writers = { ...next.clock.writers, [group]: write.by };
+  if (write.stamp > lastWrite(object)) {
+    next.updatedAt = stampDate(write.stamp);
+    next.updatedBy = write.by;
+  }
+  return next;
+};
+
+// An object's registers as detached writes, for when it is removed
+const registersOf = (object: StoredObject): DetachedWrites => {
+  const writes: DetachedWrites = {};
+  for (const group of Object.keys(FIELD_GROUPS) as FieldGroup[]) {
+    const stamp = groupStamp(object, group);
+    const values: DetachedWrite['values'] = {};
+    FIELD_GROUPS[group].forEach(field => {
+      (values as Record<string, unknown>)[field] = object[field];
+    });
+    // Absent means false; spelled out so the write still clears it once it has been through JSON
+    if (group === 'content') {
+      values.isText = Boolean(object.isText);
+    }
+    // Objects stamped before writers were recorded only know who wrote last
+    writes[group] = { values, stamp, by: object.clock?.writers?.[group] ?? object.updatedBy ?? 'unknown' };
+  }
+  return writes;
+};
+
+/**
+ * Brings a state into canonical form: removed objects leave the object list,
+ * their registers newer than the removal stay behind as detached writes, and
+ * detached writes move into their object wherever it is shown. Writes no
+ * newer than an object's tombstone can never win again and are dropped.
+ */
+const settle = (
+  byId: Map<string, StoredObject>,
+  tombstones: Record<string, Tombstone>,
+  detachedWrites: Record<string, DetachedWrites>
+): Required<TableState> => {
+  const pending: Record<string, DetachedWrites> = { ...detachedWrites };
+  const objects: StoredObject[] = [];
+  for (const object of byId.values()) {
+    if (isTombstoned({ objects: [], tombstones }, object)) {
+      pending[object.id] = mergeWrites(pending[object.id], registersOf(object));
+      continue;
+    }
+    const writes = pending[object.id];
+    delete pending[object.id];
+    objects.push(
+      (Object.entries(writes ?? {}) as [FieldGroup, DetachedWrite][]).reduce(
+        (current, [group, write]) => applyWrite(current, group, write),
+        object
+      )
+    );
+  }
+
+  const detached: Record<string, DetachedWrites> = {};
+  for (const [id, writes] of Object.entries(pending)) {
+    const removedAt = tombstones[id]?.stamp ?? '';
+    const kept = Object.fromEntries(
+      Object.entries(writes).filter(([, write]) => write.stamp > removedAt)
+    ) as DetachedWrites;
+    if (Object.keys(kept).length > 0) {
+      detached[id] = kept;
+    }
+  }
+
+  return { objects, tombstones, detached };
+};
+
+export function mergeTableStates(a: TableState, b: TableState): Required<TableState> {
+  const tombstones: Record<string, Tombstone> = { ...a.tombstones };
+  for (const [id, tombstone] of Object.entries(b.tombstones ?? {})) {
+    tombstones[id] = latestTombstone(tombstones[id], tombstone);
+  }
+
+  const detached: Record<string, DetachedWrites> = { ...a.detached };
+  for (const [id, writes] of Object.entries(b.detached ?? {})) {
+    detached[id] = mergeWrites(detached[id], writes);
+  }
+
+  const byId = new Map<string, StoredObject>();
+  for (const object of [...a.objects, ...b.objects]) {
+    const existing = byId.get(object.id);
+    byId.set(object.id, existing ? mergeObject(existing, object) : object);
+  }
+
+  const settled = settle(byId, tombstones, detached);
+  return { ...settled, objects: settled.objects.sort(compareObjects) };
+}
+
+/**
+ * Writes `changes` into the object's registers wherever `stamp` is newer than
+ * the register's. Without a stamp (operations logged before stamps existed)
+ * the change always wins, and is dropped when the object isn't there.
+ */
+export function updateFields(
+  state: TableState,
+  id: string,
+  changes: Partial<Pick<StoredObject, ObjectField>>,
+  stamp?: Stamp,
+  by = 'unknown'
+): TableState {
+  if (!stamp) {
+    return {
+      ...state,
+      objects: state.objects.map(object => (object.id === id ? { ...object, ...changes } : object)),
+    };
+  }
+
+  const writes: DetachedWrites = {};
+  for (const [field, value] of Object.entries(changes) as [ObjectField, unknown][]) {
+    const group = groupOf(field);
+    const write = writes[group] ?? { values: {}, stamp, by };
+    (write.values as Record<string, unknown>)[field] = value;
+    writes[group] = write;
+  }
+
+  if (!state.objects.some(object => object.id === id)) {
+    const { objects, tombstones, detached } = settle(
+      new Map(state.objects.map(object => [object.id, object])),
+      state.tombstones ?? {},
+      { ...state.detached, [id]: mergeWrites(state.detached?.[id], writes) }
+    );
+    return { ...state, objects, tombstones, detached };
+  }
+
+  return {
+    ...state,
+    objects: state.objects.map(object =>
+      object.id === id
+        ? (Object.entries(writes) as [FieldGroup, DetachedWrite][]).reduce(
+            (current, [group, write]) => applyWrite(current, group, write),
+            object
+          )
+        : object
+    ),
+  };
+}
+
+export function removeObject(state: TableState, id: string, stamp?: Stamp, deletedBy = 'unknown'): TableState {
+  if (!stamp) {
+    return { ...state, objects: state.objects.filter(object => object.id !== id) };
+  }
+  const tombstone: Tombstone = { stamp, deletedAt: new Date(stampTime(stamp)).toISOString(), deletedBy };
+  const tombstones = { ...state.tombstones, [id]: latestTombstone(state.tombstones?.[id], tombstone) };
+  return {
+    ...state,
+    ...settle(new Map(state.objects.map(object => [object.id, object])), tombstones, state.detached ?? {}),
+  };
+}
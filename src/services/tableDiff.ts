@@ -0,0 +1,97 @@
+// src/services/tableDiff.ts
+//
+// What it takes to turn one set of objects into another, as a list of changes
+// to preview and as the operations that make them. Restoring a revision and
+// importing a file both go through here.
+import type { EditableFields, TableOperation } from './operations';
+import type { StoredObject } from './storageTypes';
+
+const CONTENT_FIELDS = ['type', 'emoji', 'color', 'isText'] as const;
+
+export interface ObjectUpdate {
+  before: StoredObject;
+  after: StoredObject;
+}
+
+export interface TableChanges {
+  added: StoredObject[];
+  updated: ObjectUpdate[];
+  removed: StoredObject[];
+  unchanged: number;
+}
+
+const contentChanges = (before: StoredObject, after: StoredObject): EditableFields => {
+  const changes: EditableFields = {};
+  CONTENT_FIELDS.forEach(field => {
+    if (before[field] !== after[field]) {
+      (changes as Record<string, unknown>)[field] = after[field];
+    }
+  });
+  return changes;
+};
+
+const hasChanged = (before: StoredObject, after: StoredObject) =>
+  before.x !== after.x || before.y !== after.y || Object.keys(contentChanges(before, after)).length > 0;
+
+/**
+ * Changes from `current` to `target`. With `keepMissing`, objects that are
+ * only in `current` stay (a merge); otherwise they are removed.
+ */
+export function diffTables(
+  current: StoredObject[],
+  target: StoredObject[],
+  { keepMissing = false } = {}
+): TableChanges {
+  const currentById = new Map(current.map(object => [object.id, object]));
+  const targetIds = new Set(target.map(object => object.id));
+  const changes: TableChanges = { added: [], updated: [], removed: [], unchanged: 0 };
+
+  target.forEach(object => {
+    const existing = currentById.get(object.id);
+    if (!existing) {
+      changes.added.push(object);
+    } else if (hasChanged(existing, object)) {
+      changes.updated.push({ before: existing, after: object });
+    } else {
+      changes.unchanged++;
+    }
+  });
+
+  current.forEach(object => {
+    if (targetIds.has(object.id)) {
+      return;
+    }
+    if (keepMissing) {
+      changes.unchanged++;
+    } else {
+      changes.removed.push(object);
+    }
+  });
+
+  return changes;
+}
+
+export const countChanges = (changes: TableChanges): number =>
+  changes.added.length + changes.updated.length + changes.removed.length;
+
+// Unstamped operations that apply `changes`
+export function changeOperations(changes: TableChanges): TableOperation[] {
+  const operations: TableOperation[] = changes.removed.map(object => ({ type: 'remove', id: object.id }));
+
+  changes.added.forEach(object => {
+    operations.push({ type: 'add', object });
+  });
+
+  changes.updated.forEach(({ before, after }) => {
+    if (before.x !== after.x || before.y !== after.y) {
+      operations.push({ type: 'move', id: after.id, x: after.x, y: after.y });
+    }
+    // An edit replaces the whole content register, so it carries every content field
+    if (Object.keys(contentChanges(before, after)).length > 0) {
+      const { type, emoji, color, isText } = after;
+      operations.push({ type: 'edit', id: after.id, changes: { type, emoji, color, isText: Boolean(isText) } });
+    }
+  });
+
+  return operations;
+}
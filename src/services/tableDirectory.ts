@@ -0,0 +1,57 @@
+// src/services/tableDirectory.ts
+//
+// The tables this browser knows about, for the lobby. Names and the archived
+// flag are personal: they live here, not in the shared table document.
+const DIRECTORY_KEY = 'the-table:directory';
+
+export interface TableEntry {
+  tableId: string;
+  name?: string;
+  // Created from this browser
+  owned: boolean;
+  archived: boolean;
+  lastVisited?: string;
+}
+
+const readDirectory = (): Record<string, TableEntry> => {
+  try {
+    return JSON.parse(window.localStorage.getItem(DIRECTORY_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const updateEntry = (tableId: string, changes: Partial<TableEntry>) => {
+  const directory = readDirectory();
+  directory[tableId] = {
+    tableId,
+    owned: false,
+    archived: false,
+    ...directory[tableId],
+    ...changes,
+  };
+  window.localStorage.setItem(DIRECTORY_KEY, JSON.stringify(directory));
+};
+
+// Most recently visited first
+export function listTables(): TableEntry[] {
+  return Object.values(readDirectory()).sort((a, b) =>
+    (b.lastVisited ?? '').localeCompare(a.lastVisited ?? '')
+  );
+}
+
+export function recordVisit(tableId: string) {
+  updateEntry(tableId, { lastVisited: new Date().toISOString() });
+}
+
+export function recordCreated(tableId: string) {
+  updateEntry(tableId, { owned: true });
+}
+
+export function renameTable(tableId: string, name: string) {
+  updateEntry(tableId, { name: name || undefined });
+}
+
+export function setTableArchived(tableId: string, archived: boolean) {
+  updateEntry(tableId, { archived });
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { TableCipher, WrongPassphraseError } from './tableEncryption';
+
+describe('TableCipher', () => {
+  it('opens what it sealed, and only with the same passphrase', async () => {
+    const cipher = new TableCipher();
+    cipher.protect('correct horse');
+    const sealed = await cipher.seal({ objects: [] }, 'version:1');
+
+    const reader = new TableCipher();
+    reader.unlock('correct horse');
+    expect(await reader.open(sealed, 'version:1')).toEqual({ objects: [] });
+
+    const stranger = new TableCipher();
+    stranger.unlock('battery staple');
+    await expect(stranger.open(sealed, 'version:1')).rejects.toThrow(WrongPassphraseError);
+  });
+
+  it('refuses payloads that pick their own iteration count', async () => {
+    const cipher = new TableCipher();
+    cipher.protect('correct horse');
+    const sealed = await cipher.seal({ objects: [] });
+
+    await expect(cipher.open({ ...sealed, iterations: 1 })).rejects.toThrow(WrongPassphraseError);
+    await expect(cipher.open({ ...sealed, iterations: 1e12 })).rejects.toThrow(WrongPassphraseError);
+  });
+});
@@ -0,0 +1,191 @@
+// src/services/tableEncryption.ts
+//
+// End-to-end encryption for tables protected by a passphrase. The document,
+// and every relay message, is sealed with AES-GCM under a key derived from the
+// passphrase with PBKDF2, so storage, the table API and the relay only ever
+// see ciphertext. The passphrase never leaves the browser and is only kept in
+// memory.
+
+const KEY_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface SealedPayload {
+  // PBKDF2 parameters the key was derived with; iterations is always KEY_ITERATIONS
+  salt: string;
+  iterations: number;
+  iv: string;
+  ciphertext: string;
+}
+
+/**
+ * How an encrypted table is stored. `version` and `lastUpdated` stay readable
+ * so servers can still do conditional writes and change checks; `version` is
+ * also bound to the ciphertext, so it can't be changed without detection.
+ */
+export interface EncryptedDocument {
+  version: number;
+  lastUpdated: string;
+  encrypted: SealedPayload;
+}
+
+export class PassphraseRequiredError extends Error {
+  constructor() {
+    super('This table is encrypted; enter its passphrase to open it');
+    this.name = 'PassphraseRequiredError';
+  }
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('Wrong passphrase: the table could not be decrypted');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+// Thrown where a document has to be read in the clear, e.g. by the table API's operation log
+export class EncryptedTableError extends Error {
+  constructor() {
+    super('The table is end-to-end encrypted and can only be read by its clients');
+    this.name = 'EncryptedTableError';
+  }
+}
+
+export const isEncryptedDocument = (value: unknown): value is EncryptedDocument =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as EncryptedDocument).encrypted === 'object' &&
+  (value as EncryptedDocument).encrypted !== null;
+
+// Documents bind their version; relay messages have nothing to bind
+export const documentContext = (version: number) => `version:${version}`;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // In chunks: spreading a large document into one call overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+interface DerivedKey {
+  salt: string;
+  key: ReturnType<typeof deriveKey>;
+}
+
+/**
+ * A table's encryption state and key. Whether the table is encrypted is
+ * learned from its document ('unknown' until one has been read) and never
+ * goes back to 'plain' once seen. Sealing only works once the passphrase has
+ * opened something, so a mistyped one never encrypts anything others can't read.
+ */
+export class TableCipher {
+  private mode: 'unknown' | 'plain' | 'encrypted' = 'unknown';
+  private passphrase: string | null = null;
+  // The key for the table's current salt; one derivation takes a noticeable moment
+  private derived: DerivedKey | null = null;
+  private verified = false;
+
+  get isEncrypted(): boolean {
+    return this.mode === 'encrypted';
+  }
+
+  get isPlain(): boolean {
+    return this.mode === 'plain';
+  }
+
+  get canSeal(): boolean {
+    return this.isEncrypted && this.verified;
+  }
+
+  // Records what the table's stored document looked like
+  noteDocument(encrypted: boolean) {
+    if (encrypted) {
+      this.mode = 'encrypted';
+    } else if (this.mode === 'unknown') {
+      this.mode = 'plain';
+    }
+  }
+
+  unlock(passphrase: string) {
+    this.passphrase = passphrase;
+    this.derived = null;
+    this.verified = false;
+  }
+
+  // Starts encrypting the table under a new passphrase and salt
+  protect(passphrase: string) {
+    this.unlock(passphrase);
+    this.mode = 'encrypted';
+    this.derived = this.derive(toBase64(randomBytes(SALT_BYTES)));
+    this.verified = true;
+  }
+
+  private derive(salt: string): DerivedKey {
+    if (this.passphrase === null) {
+      throw new PassphraseRequiredError();
+    }
+    return { salt, key: deriveKey(this.passphrase, fromBase64(salt), KEY_ITERATIONS) };
+  }
+
+  private keyFor(salt: string): DerivedKey['key'] {
+    if (this.derived?.salt !== salt) {
+      this.derived = this.derive(salt);
+    }
+    return this.derived.key;
+  }
+
+  async seal(value: unknown, context = ''): Promise<SealedPayload> {
+    if (!this.canSeal) {
+      throw new PassphraseRequiredError();
+    }
+    const { salt } = this.derived;
+    const iv = randomBytes(IV_BYTES);
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(context) },
+      await this.keyFor(salt),
+      new TextEncoder().encode(JSON.stringify(value))
+    );
+    return { salt, iterations: KEY_ITERATIONS, iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+  }
+
+  // Throws WrongPassphraseError when the payload doesn't open with our passphrase, or was altered
+  async open<T>(sealed: SealedPayload, context = ''): Promise<T> {
+    // Stored documents and relay messages aren't trusted to choose the
+    // iteration count: a forged one could make the key weak or the derivation endless
+    if (sealed.iterations !== KEY_ITERATIONS) {
+      throw new WrongPassphraseError();
+    }
+    const key = await this.keyFor(sealed.salt);
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(sealed.iv), additionalData: new TextEncoder().encode(context) },
+        key,
+        fromBase64(sealed.ciphertext)
+      );
+    } catch {
+      throw new WrongPassphraseError();
+    }
+    this.verified = true;
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  }
+}
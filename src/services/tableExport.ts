@@ -0,0 +1,112 @@
+// src/services/tableExport.ts
+//
+// Tables saved to and read back from JSON files. The file wraps the table's
+// objects in a small envelope with a format version, so files exported today
+// can still be recognised (and upgraded) by later versions of the app.
+import { z } from 'zod';
+import { checkObject } from './storageSchema';
+import type { StorageData, StoredObject } from './storageTypes';
+
+const EXPORT_FORMAT = 'the-table';
+const EXPORT_FORMAT_VERSION = 1;
+
+export interface TableExport {
+  format: typeof EXPORT_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  tableId: string;
+  data: StorageData;
+}
+
+// Objects are checked one by one below, so a single bad one doesn't sink the file
+const tableExportSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  formatVersion: z.number().int().positive(),
+  exportedAt: z.string(),
+  tableId: z.string(),
+  data: z.object({
+    objects: z.array(z.unknown()),
+    lastUpdated: z.string(),
+    version: z.number(),
+  }),
+});
+
+export interface RejectedObject {
+  index: number;
+  problem: string;
+}
+
+export interface ParsedImport {
+  source: TableExport;
+  objects: StoredObject[];
+  rejected: RejectedObject[];
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)).join('; ');
+
+export function createTableExport(tableId: string, data: StorageData): TableExport {
+  return {
+    format: EXPORT_FORMAT,
+    formatVersion: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    tableId,
+    data: {
+      // Write stamps only mean something inside the table they came from
+      objects: data.objects.map(({ clock, ...object }) => object),
+      lastUpdated: data.lastUpdated,
+      version: data.version,
+    },
+  };
+}
+
+export const exportFileName = (tableId: string, exportedAt: string) =>
+  `table-${tableId}-${exportedAt.slice(0, 10)}.json`;
+
+/**
+ * Reads an exported file. Throws ImportError when it isn't one; objects that
+ * fail validation are left out and reported in `rejected`.
+ */
+export function parseTableExport(text: string): ParsedImport {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new ImportError('The file is not valid JSON');
+  }
+
+  const envelope = tableExportSchema.safeParse(json);
+  if (!envelope.success) {
+    throw new ImportError(`This is not a table export (${describeIssues(envelope.error)})`);
+  }
+  if (envelope.data.formatVersion > EXPORT_FORMAT_VERSION) {
+    throw new ImportError('The file was exported by a newer version of the app');
+  }
+
+  const objects: StoredObject[] = [];
+  const rejected: RejectedObject[] = [];
+  const seen = new Set<string>();
+  envelope.data.data.objects.forEach((candidate, index) => {
+    const check = checkObject(candidate);
+    if (check.valid === false) {
+      rejected.push({ index, problem: check.problems.join('; ') });
+    } else if (seen.has(check.object.id)) {
+      rejected.push({ index, problem: `duplicate id ${check.object.id}` });
+    } else {
+      seen.add(check.object.id);
+      // A stamp from another table would be meaningless here
+      const { clock, ...object } = check.object;
+      objects.push(object);
+    }
+  });
+
+  const source = envelope.data as TableExport;
+  return { source: { ...source, data: { ...source.data, objects } }, objects, rejected };
+}
@@ -0,0 +1,83 @@
+// src/services/tableStore.ts
+import type { RemoteState, SyncStatus } from './storageService';
+import type { StoredObject } from './storageTypes';
+import type { ObjectClock } from './tableCrdt';
+
+export interface TableState {
+  // What the table shows: the stored objects plus edits not saved yet
+  objects: StoredObject[];
+  remoteState: RemoteState;
+  sync: SyncStatus;
+  canUndo: boolean;
+  canRedo: boolean;
+  quarantineCount: number;
+}
+
+type StoreListener = () => void;
+
+const sameClock = (a: ObjectClock | undefined, b: ObjectClock | undefined) =>
+  a?.added === b?.added && a?.position === b?.position && a?.content === b?.content;
+
+const sameObject = (a: StoredObject, b: StoredObject): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof StoredObject>;
+  return [...keys].every(key => (key === 'clock' ? sameClock(a.clock, b.clock) : a[key] === b[key]));
+};
+
+// Keeps the previous object, and the previous array, wherever nothing changed
+const reuseUnchanged = (previous: StoredObject[], next: StoredObject[]): StoredObject[] => {
+  const byId = new Map(previous.map(object => [object.id, object]));
+  let unchanged = previous.length === next.length;
+  const objects = next.map((object, index) => {
+    const before = byId.get(object.id);
+    const kept = before && sameObject(before, object) ? before : object;
+    unchanged = unchanged && kept === previous[index];
+    return kept;
+  });
+  return unchanged ? previous : objects;
+};
+
+const sameStatus = (a: SyncStatus, b: SyncStatus) =>
+  a.state === b.state &&
+  a.pendingCount === b.pendingCount &&
+  a.lastSyncedAt === b.lastSyncedAt &&
+  a.error === b.error &&
+  a.conflict === b.conflict;
+
+/**
+ * The state a table's UI renders, filled in by StorageService and read with
+ * useTable. Each update makes a new snapshot in which only the parts that
+ * changed are new values: an object that didn't move is the same object as
+ * before, so components that select part of the state skip unrelated updates.
+ */
+export class TableStore {
+  private listeners = new Set<StoreListener>();
+
+  constructor(private state: TableState) {}
+
+  getSnapshot = (): TableState => this.state;
+
+  subscribe = (listener: StoreListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  update(next: TableState) {
+    const current = this.state;
+    const objects = reuseUnchanged(current.objects, next.objects);
+    const sync = sameStatus(current.sync, next.sync) ? current.sync : next.sync;
+    if (
+      objects === current.objects &&
+      sync === current.sync &&
+      next.remoteState === current.remoteState &&
+      next.canUndo === current.canUndo &&
+      next.canRedo === current.canRedo &&
+      next.quarantineCount === current.quarantineCount
+    ) {
+      return;
+    }
+    this.state = { ...next, objects, sync };
+    this.listeners.forEach(listener => listener());
+  }
+}
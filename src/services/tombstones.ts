@@ -0,0 +1,65 @@
+// src/services/tombstones.ts
+import type { ClientProgress, StorageData } from './storageTypes';
+import { stampTime, type Tombstone } from './tableCrdt';
+
+// Clients silent for this long no longer hold back collection; when they
+// come back their log position is too old and they reload the snapshot
+const CLIENT_EXPIRY_MS = 30 * 24 * 60 * 60 * 1000;
+// Covers edits still travelling over the relay when the removal was logged
+const TOMBSTONE_MIN_AGE_MS = 60 * 60 * 1000;
+
+export const recordClientProgress = (
+  clients: Record<string, ClientProgress> | undefined,
+  clientIds: string[],
+  seq: number,
+  at: string
+): Record<string, ClientProgress> => {
+  const next = { ...clients };
+  clientIds.forEach(clientId => {
+    next[clientId] = { seq, lastSeen: at };
+  });
+  return next;
+};
+
+/**
+ * Drops tombstones every active client has read past, along with clients
+ * that have gone quiet. A tombstone only needs to outlive the operations it
+ * guards against, and those can only come from clients that haven't seen it.
+ * Detached writes wait for an add that is still on its way; once their
+ * object's tombstone is gone and they are as old as a tombstone has to be,
+ * any such add has long been logged.
+ */
+export function collectGarbage(
+  data: StorageData,
+  now = Date.now()
+): Pick<StorageData, 'tombstones' | 'clients' | 'detached'> {
+  const clients = Object.fromEntries(
+    Object.entries(data.clients ?? {}).filter(([, progress]) =>
+      now - Date.parse(progress.lastSeen) < CLIENT_EXPIRY_MS
+    )
+  );
+
+  const seenByAll = Math.min(...Object.values(clients).map(progress => progress.seq));
+
+  const isCollectable = (tombstone: Tombstone) => {
+    const age = now - stampTime(tombstone.stamp);
+    if (age >= CLIENT_EXPIRY_MS) {
+      return true;
+    }
+    return age >= TOMBSTONE_MIN_AGE_MS && tombstone.seq !== undefined && tombstone.seq <= seenByAll;
+  };
+
+  const tombstones = Object.fromEntries(
+    Object.entries(data.tombstones ?? {}).filter(([, tombstone]) => !isCollectable(tombstone))
+  );
+
+  const detached = Object.fromEntries(
+    Object.entries(data.detached ?? {}).filter(
+      ([id, writes]) =>
+        tombstones[id] !== undefined ||
+        Object.values(writes).some(write => now - stampTime(write.stamp) < TOMBSTONE_MIN_AGE_MS)
+    )
+  );
+
+  return { tombstones, clients, detached };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import type { StoredObject } from './storageTypes';
+import { UndoHistory } from './undoHistory';
+
+const cup: StoredObject = { id: 'o1', x: 10, y: 20, type: 'cup', emoji: '☕', color: 'bg-amber-600' };
+
+const historyWithAdd = () => {
+  const history = new UndoHistory();
+  history.record({ type: 'add', object: cup }, { type: 'remove', id: cup.id });
+  return history;
+};
+
+describe('UndoHistory', () => {
+  it('undoes an add nobody has touched since', () => {
+    expect(historyWithAdd().undo([{ ...cup, isText: false }])).toEqual({ type: 'remove', id: cup.id });
+  });
+
+  it('skips an add someone else has moved since', () => {
+    const history = historyWithAdd();
+
+    expect(history.undo([{ ...cup, x: 300, y: 200 }])).toBeNull();
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('skips an add someone else has edited since', () => {
+    expect(historyWithAdd().undo([{ ...cup, emoji: '🍵' }])).toBeNull();
+  });
+
+  it('skips a move someone else has moved on from', () => {
+    const history = new UndoHistory();
+    history.record({ type: 'move', id: cup.id, x: 50, y: 60 }, { type: 'move', id: cup.id, x: 10, y: 20 });
+
+    expect(history.undo([{ ...cup, x: 70, y: 80 }])).toBeNull();
+  });
+
+  it('redoes an undone add as the object was when it was undone', () => {
+    const history = historyWithAdd();
+    history.undo([cup]);
+
+    expect(history.redo([])).toEqual({ type: 'add', object: cup });
+  });
+});
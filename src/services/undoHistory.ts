@@ -0,0 +1,109 @@
+// src/services/undoHistory.ts
+//
+// Undo and redo over this client's own edits. Each step remembers the
+// operation that was made and the one that reverts it. Other people's edits
+// are never undone: a step whose effect someone has since changed (they moved
+// the object again, removed it, ...) is dropped instead of overwriting them.
+import type { TableOperation } from './operations';
+import type { StoredObject } from './storageTypes';
+
+const MAX_STEPS = 100;
+// Moves of one object this close together are one drag, undone as a whole
+const MOVE_MERGE_MS = 1000;
+
+interface UndoStep {
+  apply: TableOperation;
+  revert: TableOperation;
+  at: number;
+}
+
+// The fields an add puts in place; an absent isText means false
+const sameField = (field: keyof StoredObject, a: StoredObject, b: Partial<StoredObject>) =>
+  field === 'isText' ? Boolean(a.isText) === Boolean(b.isText) : a[field] === b[field];
+
+const ADDED_FIELDS: (keyof StoredObject)[] = ['x', 'y', 'type', 'emoji', 'color', 'isText'];
+
+// Whether `objects` still show what `operation` did
+const isInEffect = (objects: StoredObject[], operation: TableOperation): boolean => {
+  if (operation.type === 'remove') {
+    return !objects.some(object => object.id === operation.id);
+  }
+  const id = operation.type === 'add' ? operation.object.id : operation.id;
+  const target = objects.find(object => object.id === id);
+  if (!target) {
+    return false;
+  }
+  switch (operation.type) {
+    case 'add':
+      // Someone who moved or edited the object since would lose it
+      return ADDED_FIELDS.every(field => sameField(field, target, operation.object));
+    case 'move':
+      return target.x === operation.x && target.y === operation.y;
+    case 'edit':
+      return Object.keys(operation.changes).every(field =>
+        sameField(field as keyof StoredObject, target, operation.changes)
+      );
+  }
+};
+
+export class UndoHistory {
+  private undoSteps: UndoStep[] = [];
+  private redoSteps: UndoStep[] = [];
+
+  // Records an edit the user just made; `revert` takes it back
+  record(apply: TableOperation, revert: TableOperation, now = Date.now()) {
+    const last = this.undoSteps[this.undoSteps.length - 1];
+    if (
+      apply.type === 'move' &&
+      last?.apply.type === 'move' &&
+      last.apply.id === apply.id &&
+      now - last.at < MOVE_MERGE_MS
+    ) {
+      // Keep where the drag started, follow where it ends
+      this.undoSteps[this.undoSteps.length - 1] = { ...last, apply, at: now };
+    } else {
+      this.undoSteps = [...this.undoSteps, { apply, revert, at: now }].slice(-MAX_STEPS);
+    }
+    this.redoSteps = [];
+  }
+
+  /** The operation that undoes the latest step still in effect, or null. */
+  undo(objects: StoredObject[]): TableOperation | null {
+    while (this.undoSteps.length > 0) {
+      const step = this.undoSteps.pop();
+      if (isInEffect(objects, step.apply)) {
+        // Redoing an add brings the object back as it was when it was undone
+        const { apply } = step;
+        const current = apply.type === 'add' && objects.find(object => object.id === apply.object.id);
+        this.redoSteps.push(current ? { ...step, apply: { ...apply, object: current } } : step);
+        return step.revert;
+      }
+    }
+    return null;
+  }
+
+  /** The operation that redoes the latest undone step, or null. */
+  redo(objects: StoredObject[]): TableOperation | null {
+    while (this.redoSteps.length > 0) {
+      const step = this.redoSteps.pop();
+      if (isInEffect(objects, step.revert)) {
+        this.undoSteps.push({ ...step, at: 0 });
+        return step.apply;
+      }
+    }
+    return null;
+  }
+
+  canUndo(): boolean {
+    return this.undoSteps.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoSteps.length > 0;
+  }
+
+  clear() {
+    this.undoSteps = [];
+    this.redoSteps = [];
+  }
+}
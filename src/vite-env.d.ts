@@ -1 +1,24 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Which storage backend to use: "proxy" (default), "jsonbin", "local" or "rest" */
+  readonly VITE_STORAGE_BACKEND?: string;
+  /** Where the table API is served, "/api" by default */
+  readonly VITE_PROXY_URL?: string;
+  /** Table opened at "/", "main" by default */
+  readonly VITE_TABLE_ID?: string;
+  /** Access token for the default table */
+  readonly VITE_TABLE_TOKEN?: string;
+  readonly VITE_JSONBIN_API_KEY?: string;
+  /** Base URL of a server with the same /tables/:id endpoints as the table API */
+  readonly VITE_STORAGE_REST_URL?: string;
+  readonly VITE_STORAGE_LOCAL_KEY?: string;
+  /** Request quota shared by saves and polling (default 30 per minute) */
+  readonly VITE_STORAGE_REQUESTS_PER_MINUTE?: string;
+  /** WebSocket relay for instant updates, e.g. ws://localhost:8787 */
+  readonly VITE_RELAY_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}